@@ -0,0 +1,184 @@
+/** A single top-level frontmatter property. `value` is already serialized YAML (e.g. `"foo"` or `[1, 2]`). */
+export type FrontmatterEntry = [key: string, value: string];
+
+/** A top-level block of frontmatter lines. `key` is undefined for comments or stray lines before the first key. */
+interface FrontmatterBlock {
+  key?: string;
+  lines: string[];
+}
+
+/** Escape a value so it can be placed inside a double quoted YAML string */
+export const yamlDq = (s: unknown) => {
+  const v = String(s ?? "");
+  // Escape backslash first, then double quotes, then normalize newlines/tabs
+  return v
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\r\n/g, "\\n")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\n")
+    .replace(/\t/g, "\\t");
+};
+
+/** Serialize a property name, quoting it only when plain YAML would misread it */
+export const yamlKey = (key: string) => {
+  return /^[^\s#'"\-?:,[\]{}&*!|>%@`][^:#]*$/.test(key) && key.trim() === key
+    ? key
+    : `"${yamlDq(key)}"`;
+};
+
+// Matches the key of a top-level `key: value` line, quoted or plain
+const keyPattern = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#\-'"][^:]*?|-[^\s:][^:]*?)\s*:(?:\s|$)/;
+
+/** Strip YAML quotes from a scalar (a key or a single line value) */
+const unquote = (raw: string) => {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw) as string;
+    } catch (e) {
+      return raw.slice(1, -1);
+    }
+  }
+  if (raw.startsWith("'")) return raw.slice(1, -1).replace(/''/g, "'");
+  return raw;
+};
+
+/** Group frontmatter lines into top-level blocks, so multi-line values (block lists etc.) stay with their key */
+const parseBlocks = (lines: string[]) => {
+  const blocks: FrontmatterBlock[] = [];
+  for (const line of lines) {
+    const m = line.match(keyPattern);
+    if (m) {
+      blocks.push({ key: unquote(m[1]), lines: [line] });
+    } else if (blocks.length) {
+      blocks[blocks.length - 1].lines.push(line);
+    } else {
+      blocks.push({ lines: [line] });
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Split a note into its frontmatter lines and the rest of the note.
+ * Undefined if the note has no frontmatter block.
+ */
+export const splitFrontmatter = (content: string) => {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(/\r?\n/);
+  if (lines[0]?.trim() !== "---") return undefined;
+
+  const end = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+  if (end === -1) return undefined;
+
+  return {
+    eol,
+    lines: lines.slice(1, end),
+    body: lines.slice(end + 1).join(eol),
+  };
+};
+
+/** Read the top-level property names of a note's frontmatter, in order */
+export const frontmatterKeys = (content: string) => {
+  const fm = splitFrontmatter(content);
+  if (!fm) return [];
+  return parseBlocks(fm.lines)
+    .map((b) => b.key)
+    .filter((k): k is string => k !== undefined);
+};
+
+/**
+ * Merge plugin-owned properties into a note's frontmatter.
+ * Owned keys are updated in place, missing ones are appended, and every other property is left as is.
+ * Notes without frontmatter get a new block at the top.
+ */
+export const mergeFrontmatter = (content: string, entries: FrontmatterEntry[]) => {
+  const render = ([key, value]: FrontmatterEntry, rawKey = yamlKey(key)) =>
+    `${rawKey}: ${value}`;
+
+  const fm = splitFrontmatter(content);
+  if (!fm) {
+    const block = ["---", ...entries.map((e) => render(e)), "---"].join("\n");
+    return content.length ? `${block}\n${content}` : `${block}\n`;
+  }
+
+  const blocks = parseBlocks(fm.lines);
+  const pending: FrontmatterEntry[] = [];
+  for (const entry of entries) {
+    const block = blocks.find((b) => b.key === entry[0]);
+    if (!block) {
+      pending.push(entry);
+      continue;
+    }
+    // Keep the key exactly as it was written (quoting etc.), only swap the value
+    const rawKey = block.lines[0].match(keyPattern)?.[1] ?? yamlKey(entry[0]);
+    block.lines = [render(entry, rawKey)];
+  }
+
+  // Drop trailing blank lines so appended keys stay next to the others
+  const lines = blocks.flatMap((b) => b.lines);
+  while (pending.length && lines.length && !lines[lines.length - 1].trim()) lines.pop();
+  lines.push(...pending.map((e) => render(e)));
+
+  return ["---", ...lines, "---", fm.body].join(fm.eol);
+};
+
+/** A property `mergeFrontmatter` would change. `before` is undefined when the property would be added. */
+export interface FrontmatterChange {
+  key: string;
+  before?: string;
+  after: string;
+}
+
+/**
+ * The properties `mergeFrontmatter(content, entries)` would rewrite, with their serialized values.
+ * Multi-line values (e.g. block lists) are joined onto one line for display.
+ */
+export const diffFrontmatter = (content: string, entries: FrontmatterEntry[]) => {
+  const blocks = parseBlocks(splitFrontmatter(content)?.lines ?? []);
+  const changes: FrontmatterChange[] = [];
+  for (const [key, after] of entries) {
+    const block = blocks.find((b) => b.key === key);
+    if (!block) {
+      changes.push({ key, after });
+      continue;
+    }
+    const m = block.lines[0].match(keyPattern);
+    const rawKey = m?.[1] ?? yamlKey(key);
+    // mergeFrontmatter replaces the whole block with one line, so anything else is a change (if only in formatting)
+    if (block.lines.length === 1 && block.lines[0] === `${rawKey}: ${after}`) continue;
+    const before = [block.lines[0].slice(m?.[0].length ?? 0), ...block.lines.slice(1)]
+      .map((l) => l.trim())
+      .filter(Boolean)
+      .join(" ");
+    changes.push({ key, before, after });
+  }
+  return changes;
+};
+
+/** Read the scalar value of a top-level property, with surrounding quotes removed. Undefined if missing. */
+export const readFrontmatterValue = (content: string, key: string) => {
+  const fm = splitFrontmatter(content);
+  if (!fm) return undefined;
+  const block = parseBlocks(fm.lines).find((b) => b.key === key);
+  if (!block) return undefined;
+
+  const m = block.lines[0].match(keyPattern);
+  return unquote(block.lines[0].slice(m?.[0].length ?? 0).trim());
+};
+
+/**
+ * Rename a top-level property, keeping its value lines exactly as written.
+ * The note is returned unchanged if it doesn't have `from`, or already has `to`.
+ */
+export const renameFrontmatterKey = (content: string, from: string, to: string) => {
+  const fm = splitFrontmatter(content);
+  if (!fm) return content;
+  const blocks = parseBlocks(fm.lines);
+  const block = blocks.find((b) => b.key === from);
+  if (!block || blocks.some((b) => b.key === to)) return content;
+
+  const m = block.lines[0].match(keyPattern);
+  block.lines[0] = `${yamlKey(to)}:${block.lines[0].slice(m?.[0].length ?? 0).replace(/^(?=\S)/, " ")}`;
+  return ["---", ...blocks.flatMap((b) => b.lines), "---", fm.body].join(fm.eol);
+};
@@ -0,0 +1,114 @@
+/** A song note as exported: its whole frontmatter, plus the fields playlists need read through the property mapping */
+export interface ExportedSong {
+  path: string;
+  properties: Record<string, unknown>; // every frontmatter property, including the user's own (ratings etc.)
+  trackId: string;
+  title: string;
+  artists: string[];
+  album?: string;
+  durationMs?: number;
+  isrc?: string;
+}
+
+export type ExportFormat = "csv" | "json" | "m3u" | "xspf";
+
+interface ExportFormatSpec {
+  label: string;
+  extension: string;
+  render: (songs: ExportedSong[]) => string;
+}
+
+/** Read a duration property in either of the formats song notes can store it in (milliseconds or m:ss) */
+export const parseDurationMs = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim());
+  const parts = value.trim().split(":").map(Number);
+  if (parts.some(isNaN)) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0) * 1000;
+};
+
+/** A property value as one line of text: lists are joined with "; ", other objects written as JSON */
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(cellText).join("; ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const csvCell = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+/** One row per song, with a column for every property any of the songs has (in the order they are first seen) */
+const renderCsv = (songs: ExportedSong[]) => {
+  const columns = [...new Set(songs.flatMap((s) => Object.keys(s.properties)))];
+  const rows = [
+    ["file", ...columns],
+    ...songs.map((s) => [s.path, ...columns.map((c) => cellText(s.properties[c]))]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+};
+
+const renderJson = (songs: ExportedSong[]) => {
+  return JSON.stringify(
+    songs.map((s) => ({ file: s.path, ...s.properties })),
+    null,
+    2
+  );
+};
+
+const displayName = (song: ExportedSong) =>
+  song.artists.length ? `${song.artists.join(", ")} - ${song.title}` : song.title;
+
+/** Extended M3U with Spotify URIs as locations. ISRCs go in a comment, as M3U has no directive for them. */
+const renderM3u = (songs: ExportedSong[]) => {
+  const lines = ["#EXTM3U"];
+  for (const song of songs) {
+    const seconds = song.durationMs !== undefined ? Math.round(song.durationMs / 1000) : -1;
+    lines.push(`#EXTINF:${seconds},${displayName(song).replace(/[\r\n]+/g, " ")}`);
+    if (song.album) lines.push(`#EXTALB:${song.album.replace(/[\r\n]+/g, " ")}`);
+    if (song.isrc) lines.push(`#ISRC:${song.isrc}`);
+    lines.push(`spotify:track:${song.trackId}`);
+  }
+  return lines.join("\n") + "\n";
+};
+
+const xml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters aren't allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "");
+
+/** XSPF with Spotify URIs as locations and ISRCs as identifiers, so other players can match the tracks */
+const renderXspf = (songs: ExportedSong[]) => {
+  const tracks = songs.map((song) => {
+    const fields = [
+      `<location>spotify:track:${xml(song.trackId)}</location>`,
+      song.isrc ? `<identifier>isrc:${xml(song.isrc)}</identifier>` : "",
+      `<title>${xml(song.title)}</title>`,
+      song.artists.length ? `<creator>${xml(song.artists.join(", "))}</creator>` : "",
+      song.album ? `<album>${xml(song.album)}</album>` : "",
+      song.durationMs !== undefined ? `<duration>${Math.round(song.durationMs)}</duration>` : "",
+    ].filter(Boolean);
+    return ["    <track>", ...fields.map((f) => `      ${f}`), "    </track>"].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+};
+
+export const exportFormats: Record<ExportFormat, ExportFormatSpec> = {
+  csv: { label: "CSV (every property)", extension: "csv", render: renderCsv },
+  json: { label: "JSON (every property)", extension: "json", render: renderJson },
+  m3u: { label: "M3U playlist", extension: "m3u", render: renderM3u },
+  xspf: { label: "XSPF playlist", extension: "xspf", render: renderXspf },
+};
@@ -0,0 +1,135 @@
+import { Notice, TFile, moment } from "obsidian";
+import ObsidianSpotifyPlugin from "main";
+import { Play, fetchRecentlyPlayed } from "spotifyAPI";
+import { getToken } from "tokenStorage";
+import { describeSpotifyError } from "spotifyClient";
+import { readSection, upsertSection } from "sections";
+
+/** Spotify only returns 50 plays per request, so catching up after a long break takes a few pages */
+const maxPagesPerPoll = 20;
+
+/**
+ * Polls recently played while Obsidian is open and writes every play into a listening log,
+ * either one note per day or a section of the daily note.
+ * The newest play written is kept in settings, so restarts neither duplicate nor skip plays.
+ */
+export class ListeningLog {
+  plugin: ObsidianSpotifyPlugin;
+  private intervalId: number | undefined;
+  private polling = false;
+
+  constructor(plugin: ObsidianSpotifyPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** (Re)start polling with the current settings. Stops polling if the log is disabled. */
+  start() {
+    this.stop();
+    const { listeningLogEnabled, listeningLogIntervalMinutes } = this.plugin.settings;
+    if (!listeningLogEnabled) return;
+
+    const minutes = Math.max(1, listeningLogIntervalMinutes || 1);
+    this.intervalId = window.setInterval(() => this.poll(), minutes * 60 * 1000);
+    this.plugin.registerInterval(this.intervalId);
+    this.poll();
+  }
+
+  stop() {
+    if (this.intervalId !== undefined) window.clearInterval(this.intervalId);
+    this.intervalId = undefined;
+  }
+
+  /** Fetch plays since the cursor and append them to the log. Overlapping polls are skipped. */
+  poll = async (showNotice = false) => {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const token = await getToken();
+      if (token === undefined) return;
+
+      let written = 0;
+      for (let page = 0; page < maxPagesPerPoll; page++) {
+        const cursor = this.plugin.settings.listeningLogCursor;
+        const plays = await fetchRecentlyPlayed(token.access_token, cursor || undefined);
+        if (plays === undefined) {
+          if (showNotice) new Notice("❌ Could not read recently played from Spotify");
+          return;
+        }
+
+        const fresh = plays.filter((p) => Date.parse(p.played_at) > cursor);
+        if (!fresh.length) break;
+
+        await this.writePlays(fresh);
+        written += fresh.length;
+        this.plugin.settings.listeningLogCursor = Date.parse(fresh[fresh.length - 1].played_at);
+        await this.plugin.saveSettings();
+
+        if (plays.length < 50) break;
+      }
+
+      if (showNotice) new Notice(written ? `✅ Logged ${written} plays` : "No new plays to log");
+    } catch (e) {
+      console.error("Error updating listening log:", e);
+      if (showNotice) new Notice(describeSpotifyError(e));
+    } finally {
+      this.polling = false;
+    }
+  };
+
+  /** Append plays to the log, grouped by the (local) day they were played on */
+  private writePlays = async (plays: Play[]) => {
+    const songNotes = this.plugin.songNotesByTrackId();
+    const byDay = new Map<string, Play[]>();
+    for (const play of plays) {
+      const day = moment(play.played_at).format("YYYY-MM-DD");
+      byDay.set(day, [...(byDay.get(day) ?? []), play]);
+    }
+
+    for (const [day, dayPlays] of byDay) {
+      const file = await this.getOrCreateLogNote(moment(day, "YYYY-MM-DD"));
+      const lines = dayPlays.map((play) => this.formatPlay(play, songNotes.get(play.song.id), file.path));
+
+      const content = await this.plugin.app.vault.read(file);
+      const previous = readSection(content, "listening-log");
+      let updated: string;
+      if (previous === undefined) {
+        // First entry of the day, start the section under its heading
+        const { listeningLogTarget, listeningLogHeading } = this.plugin.settings;
+        const heading = listeningLogTarget === "daily-note" ? listeningLogHeading.trim() : "";
+        const base = heading ? `${content.replace(/\s+$/, "")}\n\n${heading}\n` : content;
+        updated = upsertSection(base, "listening-log", lines.join("\n"));
+      } else {
+        updated = upsertSection(content, "listening-log", [previous, ...lines].filter(Boolean).join("\n"));
+      }
+      await this.plugin.app.vault.modify(file, updated);
+    }
+  };
+
+  private formatPlay = (play: Play, note: TFile | undefined, sourcePath: string) => {
+    const time = moment(play.played_at).format("HH:mm");
+    const artists = (play.song.artists ?? []).map((a) => a.name).join(", ");
+    const title = note
+      ? `[[${this.plugin.app.metadataCache.fileToLinktext(note, sourcePath, true)}|${play.song.name}]]`
+      : `${play.song.name} ([Spotify](${play.song.link}))`;
+    return `- ${time} ${title} — ${artists}`;
+  };
+
+  /** The day's log note, or the daily note, depending on settings. Created if missing. */
+  private getOrCreateLogNote = async (day: moment.Moment) => {
+    const { settings } = this.plugin;
+    const useDailyNote = settings.listeningLogTarget === "daily-note";
+    const folder = this.plugin.normalizeFolder(
+      useDailyNote ? settings.dailyNotesFolder : settings.listeningLogFolder
+    );
+    const name = day.format(useDailyNote ? settings.dailyNoteFormat || "YYYY-MM-DD" : "YYYY-MM-DD");
+    const path = `${folder ? `${folder}/` : ""}${name}.md`;
+
+    const existing = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) return existing;
+
+    // Date formats may contain folders of their own (e.g. YYYY/MM/YYYY-MM-DD)
+    await this.plugin.ensureFolderExists(path.split("/").slice(0, -1).join("/"));
+    const title = useDailyNote ? "" : `# Listening log ${name}\n`;
+    return await this.plugin.app.vault.create(path, title);
+  };
+}
@@ -1,124 +1,179 @@
-import electron, {
-  IpcMainEvent,
-  Event,
-  WebContentsWillNavigateEventParams,
-} from "electron";
-import { Editor, MarkdownView, Notice, Plugin } from "obsidian";
 import {
-  TokenResponse,
+  Editor,
+  MarkdownFileInfo,
+  MarkdownView,
+  Notice,
+  ObsidianProtocolData,
+  Platform,
+  Plugin,
+  TFile,
+  moment,
+  normalizePath,
+} from "obsidian";
+import {
   fetchToken,
   fetchCurrentSong,
+  fetchCurrentlyPlaying,
+  fetchEpisodes,
   fetchSongById,
-  fetchArtistGenres,
+  fetchSongsByIds,
+  fetchArtists,
+  fetchAlbum,
+  fetchPlaylist,
+  fetchUserPlaylists,
+  fetchProfile,
+  fetchSavedTracks,
+  createPlaylist,
+  replacePlaylistTracks,
+  parseSpotifyId,
+  parseSpotifyUrl,
+  findSpotifyUrls,
+  SpotifyUrlMatch,
+  Artist,
+  Album,
+  Episode,
+  Playlist,
+  PlaylistSummary,
   redirectUri,
   buildAuthUrlAndVerifier,
   Song,
 } from "spotifyAPI";
 import {
+  describeSpotifyError,
+  isFatalSpotifyError,
+  setAccessTokenRefresher,
+} from "spotifyClient";
+import {
+  forceRefreshToken,
   getToken,
   hasNotifiedPublicAvailability,
+  initTokenStorage,
   setHasNotifiedPublicAvailability,
+  setReconnectHandler,
+  storePendingAuth,
   storeToken,
+  takePendingAuth,
 } from "tokenStorage";
 import {
   DEFAULT_SETTINGS,
   ObsidianSpotifyPluginSettings,
   SettingTab,
 } from "settings";
+import {
+  FrontmatterEntry,
+  diffFrontmatter,
+  mergeFrontmatter,
+  readFrontmatterValue,
+  splitFrontmatter,
+} from "frontmatter";
+import {
+  SongLinkFormat,
+  renderSongLink,
+  renderTemplate,
+  songLinkFormats,
+  songLinkNeedsNote,
+  songTemplateValues,
+} from "templates";
+import {
+  ProgressModal,
+  pickFiles,
+  pickFromList,
+  promptForText,
+  showReport,
+} from "modals";
+import { ListeningLog } from "listeningLog";
+import { NowPlaying } from "nowPlaying";
+import { Playback } from "playback";
+import { SongCards } from "songCards";
+import { SongIndex } from "songIndex";
+import { searchForSong } from "songSearch";
+import { SelectedSong, chooseSongs } from "songSelection";
+import { ExportFormat, ExportedSong, exportFormats, parseDurationMs } from "libraryExport";
+import { aggregateStreamingHistory, historyFilePattern, nameKey } from "streamingHistory";
+import { readSection, upsertSection } from "sections";
+import {
+  buildSongProperties,
+  SongField,
+  formatDuration,
+  yamlList,
+  yamlString,
+  songPropertyKey,
+  withDefaultSongProperties,
+} from "songSchema";
 //import { fetchAudioFeatures } from "spotifyAPI";
 
-export default class ObsidianSpotifyPlugin extends Plugin {
-  settings: ObsidianSpotifyPluginSettings;
-
-  // Inspired by:
-  // - https://stackoverflow.com/questions/73636861/electron-how-to-get-an-auth-token-from-browserwindow-to-the-main-electron-app
-  // - https://authguidance.com/desktop-apps-overview/
-  // - https://stackoverflow.com/questions/64530295/what-redirect-uri-should-i-use-for-an-authorization-call-used-in-an-electron-app
-  openSpotifyAuthModal = (onComplete?: () => void) => {
-    // Build the authorization URL
-    const [authUrl, verifier] = buildAuthUrlAndVerifier();
-
-    // Open a window to that url
-    // @ts-ignore remote is available in obsidian currently
-    const authWindow = new electron.remote.BrowserWindow({
-      width: 800,
-      height: 600,
-      show: false,
-      webPreferences: {
-        nodeIntegration: false,
-        webSecurity: false,
-      },
-    });
-    authWindow.loadURL(authUrl);
-    authWindow.show();
-
-    // The channel through which the auth window will communicate with the main process
-    const accessTokenChannel = "access-token-response";
-
-    // If the user accepts, grab the auth code, exchange for an access token, and send that to the main window
-    // All other navigations are ignored
-    authWindow.webContents.on(
-      "will-navigate",
-      async (event: Event<WebContentsWillNavigateEventParams>) => {
-        const url = new URL(event.url);
-        // Ignore all navigations that are not clicking the accept button in the auth flow
-        if (!url.href.startsWith(redirectUri)) {
-          // TODO: Would it be better to check if url.protocol === "obsidian:"?
-          return;
-        }
+/** Artists fetched (and artist note link texts resolved) so far, keyed by artist id */
+interface ArtistCache {
+  byId: Map<string, Artist>;
+  notes: Map<string, string>;
+}
 
-        // Otherwise the user has accepted, grab the code and a potential error
-        const code = url.searchParams.get("code");
-        const error = url.searchParams.get("error");
-
-        // Set up a helper to issue a notification, console error, and remove the listener on accessTokenChannel
-        const bail = (error: string) => {
-          new Notice("❌ There was an issue signing you in");
-          console.error("Error encountered during auth flow: " + error);
-          // @ts-ignore remote is available in obsidian currently
-          electron.remote.ipcMain.removeAllListeners(accessTokenChannel);
-          authWindow.destroy();
-        };
+const newArtistCache = (): ArtistCache => ({ byId: new Map(), notes: new Map() });
 
-        // If we didn't get an auth code, error out
-        if (error) {
-          bail(error);
-          return;
-        }
+export default class ObsidianSpotifyPlugin extends Plugin {
+  settings: ObsidianSpotifyPluginSettings;
+  listeningLog: ListeningLog;
+  songIndex: SongIndex;
+  playback: Playback;
+  nowPlaying: NowPlaying;
+  songCards: SongCards;
+  private onSpotifyConnected?: () => void; // called once a sign in started by `connectSpotify` completes
 
-        // If we didn't get an auth code, error out
-        if (code === null) {
-          bail("code not present");
-          return;
-        }
+  /**
+   * Start connecting Spotify: open the authorization page in the system browser and remember the PKCE verifier and `state`.
+   * Spotify redirects back to obsidian://music-vault-callback, which finishes the flow in `completeSpotifyAuth`.
+   */
+  connectSpotify = async (onComplete?: () => void) => {
+    const { url, verifier, state } = await buildAuthUrlAndVerifier();
+    storePendingAuth(verifier, state);
+    this.onSpotifyConnected = onComplete;
+    window.open(url);
+    new Notice("🎵 Continue in your browser to connect Spotify");
+  };
 
-        // Exchange auth code for an access token response
-        const tokenResponse = await fetchToken(code, verifier, redirectUri);
+  /** Handle the redirect back from Spotify: check `state`, then exchange the code for a token */
+  completeSpotifyAuth = async (params: ObsidianProtocolData) => {
+    // Set up a helper to issue a notification and console error
+    const bail = (error: string) => {
+      new Notice("❌ There was an issue signing you in");
+      console.error("Error encountered during auth flow: " + error);
+    };
+
+    // Only finish a sign in we started, recently
+    const pending = takePendingAuth(params.state);
+    if (!pending) {
+      bail("no pending sign in for this state, or it expired");
+      return;
+    }
 
-        // If there was an issue fetching the token, error out
-        if (!tokenResponse) {
-          bail("issue fetching token");
-          return;
-        }
+    // If the user declined, or we didn't get an auth code, error out
+    if (params.error) {
+      bail(params.error);
+      return;
+    }
+    if (!params.code) {
+      bail("code not present");
+      return;
+    }
 
-        // Send access token and related information to main window
-        electron.ipcRenderer.send(accessTokenChannel, tokenResponse);
-      }
-    );
+    // Exchange auth code for an access token response
+    const tokenResponse = await fetchToken(params.code, pending.verifier, redirectUri);
+    if (!tokenResponse) {
+      bail("issue fetching token");
+      return;
+    }
 
-    // @ts-ignore remote is available in obsidian currently
-    electron.remote.ipcMain.once(
-      accessTokenChannel,
-      (event: IpcMainEvent, token: TokenResponse) => {
-        storeToken(token);
-        authWindow.destroy();
-        onComplete?.();
-      }
-    );
+    storeToken(tokenResponse);
+    new Notice("✅ Connected to Spotify");
+    this.onSpotifyConnected?.();
+    this.onSpotifyConnected = undefined;
   };
 
-  /** This is an `editorCallback` function which fetches the current song an inserts it into the editor. */
-  insertSongLink = async (editor: Editor, view: MarkdownView) => {
+  /**
+   * This is an `editorCallback` function which fetches the current song an inserts it into the editor.
+   * Links it in the configured format unless given one.
+   */
+  insertSongLink = async (editor: Editor, view: MarkdownView | MarkdownFileInfo, format?: SongLinkFormat) => {
     const token = await getToken();
 
     // Handle the case where the function is used without first having logged in
@@ -128,25 +183,121 @@ export default class ObsidianSpotifyPlugin extends Plugin {
       return;
     }
 
-    const song = await fetchCurrentSong(token.access_token);
+    const current = await fetchCurrentlyPlaying(token.access_token);
     // TODO: Add some kind of loading state for UX clarity
 
+    // Podcast episodes get a link too
+    if (current?.episode) {
+      editor.replaceSelection(this.buildEpisodeLink(current.episode));
+      new Notice("✅ Added episode link");
+      return;
+    }
+
     // Handle case of no song playing
+    const song = current?.song;
     if (song === undefined) {
       new Notice("❌ No song playing");
       return;
     }
 
-    const link = this.buildSongLink(song);
+    const link = await this.formatSongLink(song, token.access_token, view.file?.path ?? "", format);
 
     // If we get here, we are good to insert the song link
     editor.replaceSelection(link);
     new Notice("✅ Added song link");
   };
 
-  /** Build a MD link to the song including attribution */
-  buildSongLink = (song: Song) => {
-    return `[${song.name}](${song.link})`;
+  /**
+   * `editorCallback` that inserts a link to the current song with the playback position, e.g. for notes on a solo or lyric.
+   * The timestamp links to a URL that seeks to that point, and is also added to the song note's "Moments" list.
+   */
+  insertSongLinkAtPosition = async (editor: Editor, view: MarkdownView) => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    const current = await fetchCurrentlyPlaying(token.access_token);
+    const song = current?.song;
+    if (current === undefined || song === undefined) {
+      new Notice("❌ No song playing");
+      return;
+    }
+
+    const seconds = Math.floor(current.progress_ms / 1000);
+    const timestamp = `[${formatDuration(seconds * 1000)}](${this.buildSeekUrl(song.id, seconds)})`;
+    const link = await this.formatSongLink(song, token.access_token, view.file?.path ?? "");
+    editor.replaceSelection(`${link} @ ${timestamp}`);
+
+    // Record the moment in the song note, creating the note if there is none yet
+    const enrichedSong = await this.enrichSong(song, token.access_token);
+    const result = await this.upsertSongNote(enrichedSong);
+    if (!result) {
+      new Notice("✅ Added song link, but could not update the song note");
+      return;
+    }
+    const source = view.file
+      ? ` — [[${this.app.metadataCache.fileToLinktext(view.file, result.file.path, true)}]]`
+      : "";
+    await this.app.vault.process(result.file, (content) => {
+      const previous = readSection(content, "moments");
+      const base = previous === undefined ? `${content.replace(/\s+$/, "")}\n\n## Moments\n` : content;
+      return upsertSection(base, "moments", [previous, `- ${timestamp}${source}`].filter(Boolean).join("\n"));
+    });
+    new Notice("✅ Added song link and moment");
+  };
+
+  /** obsidian:// URL that seeks playback to `seconds` into the track, handled by the "music-vault-seek" protocol handler */
+  buildSeekUrl = (trackId: string, seconds: number) => {
+    return `obsidian://music-vault-seek?track=${trackId}&t=${seconds}`;
+  };
+
+  /**
+   * Link to a song in the configured format, or the given one. Formats linking the song note create (or update) it first,
+   * and fall back to a markdown link with artists if it can't be written.
+   */
+  formatSongLink = async (
+    song: Song,
+    token: string,
+    sourcePath: string,
+    format: SongLinkFormat = this.settings.songLinkFormat
+  ) => {
+    const template = this.settings.songLinkTemplate;
+    let note: string | undefined;
+    if (songLinkNeedsNote(format, template)) {
+      const result = await this.upsertSongNote(await this.enrichSong(song, token));
+      if (result) note = this.app.metadataCache.fileToLinktext(result.file, sourcePath, true);
+    }
+    return renderSongLink(song, format, template, note);
+  };
+
+  /** Build a MD link to a podcast episode, titled with its show */
+  buildEpisodeLink = (episode: Episode) => {
+    const title = episode.show?.name ? `${episode.show.name}: ${episode.name}` : episode.name;
+    return `[${title}](${episode.link})`;
+  };
+
+  /** Wrap a command so a failed Spotify request ends up as an accurate Notice rather than an unhandled rejection */
+  withErrorNotice = <T extends unknown[]>(fn: (...args: T) => Promise<unknown>) => {
+    return async (...args: T) => {
+      try {
+        await fn(...args);
+      } catch (e) {
+        console.error(e);
+        new Notice(describeSpotifyError(e));
+      }
+    };
+  };
+
+  /** Ask the user to connect Spotify again, after the stored refresh token was rejected. Stays until clicked or dismissed. */
+  promptReconnect = () => {
+    const notice = new Notice("🎵 Spotify was disconnected, click here to reconnect", 0);
+    notice.noticeEl.addEventListener("click", () => {
+      notice.hide();
+      this.connectSpotify();
+    });
   };
 
   /** Open Spotify Links settings page */
@@ -214,147 +365,246 @@ private foldPropertiesInActiveLeaf = async () => {
     return name.replace(/[\\/:*?"<>|]/g, "").slice(0, 200).trim();
   };
 
-  private buildSongFrontmatter = (song: Song) => {
-  const artistsAll = (song.artists ?? []).map(a => a.name).filter(Boolean) as string[];
-  const artistLinksAll = (song.artists ?? [])
-    .map(a => a.link)
-    .filter((x): x is string => !!x);
-  const artistIdsAll = (song.artists ?? []).map(a => a.id).filter(Boolean) as string[];
-
-  const albumName = song.album?.name ?? "";
-  const releaseDate = song.album?.release_date ?? "";
-  const genres = song.genres ?? [];
-
-  return [
-    "---",
-    `Song Name: "${this.yamlDq(song.name)}"`,
-    `Song link: "${this.yamlDq(song.link)}"`,
-    `track_id: "${song.id}"`,
-    `isrc: "${song.isrc ?? ""}"`,
-    `duration_ms: ${song.duration_ms ?? '""'}`,
-    `explicit: ${song.explicit ?? '""'}`,
-    `popularity: ${song.popularity ?? '""'}`,
-    `artists_all: [${artistsAll.map(n => JSON.stringify(n)).join(", ")}]`,
-    `artist_ids_all: [${artistIdsAll.map(id => JSON.stringify(id)).join(", ")}]`,
-    `artist_links_all: [${artistLinksAll.map(u => JSON.stringify(u)).join(", ")}]`,
-    `genres: [${genres.map(g => JSON.stringify(g)).join(", ")}]`,
-    `Album name: "${this.yamlDq(albumName)}"`,
-    `Release date: "${releaseDate}"`,
-    "---",
-  ].join("\n");
-};
+  /** Build the frontmatter properties the plugin owns for a song note, following the configured mapping */
+  private buildSongFrontmatter = (song: Song): FrontmatterEntry[] => {
+    return buildSongProperties(song, this.settings.songProperties);
+  };
 
-private upsertFrontmatter = (content: string, newFrontmatter: string) => {
-  // only replace the frontmatter block; keep everything else identical
-  const m = content.match(/^(\s*---\s*\r?\n[\s\S]*?\r?\n---)(\r?\n?)([\s\S]*)$/);
-  if (!m) return content; // dont touch if no frontmatter
-  const [, , sep, rest] = m;
-  return `${newFrontmatter}${sep}${rest}`;
-};
+// Fetch the artists of all `songs` that aren't in `artists` yet, in as few requests as possible
+private prefetchArtists = async (songs: Song[], token: string, artists: ArtistCache) => {
+  const missing = songs
+    .flatMap((song) => (song.artists ?? []).map((a) => a.id))
+    .filter((id) => id && !artists.byId.has(id));
+  if (!missing.length) return;
 
-private yamlDq = (s: unknown) => {
-  const v = String(s ?? "");
-  // Escape backslash first, then double quotes, then normalize newlines/tabs
-  return v
-    .replace(/\\/g, "\\\\")
-    .replace(/"/g, '\\"')
-    .replace(/\r\n/g, "\\n")
-    .replace(/\n/g, "\\n")
-    .replace(/\r/g, "\\n")
-    .replace(/\t/g, "\\t");
+  const fetched = await fetchArtists(token, missing);
+  fetched.forEach((artist, id) => artists.byId.set(id, artist));
 };
 
-private enrichSongWithGenres = async (song: Song, token: string): Promise<Song> => {
+// Fetch the song's artists (reusing `artists` across calls), add their genres and, if enabled, link artist notes
+enrichSong = async (
+  song: Song,
+  token: string,
+  artists: ArtistCache = newArtistCache(),
+  linkArtistNotes = this.settings.createArtistNotes
+): Promise<Song> => {
   const artistIds = (song.artists ?? []).map(a => a.id).filter(Boolean);
   if (!artistIds.length) return song;
 
-  const genreMap = await fetchArtistGenres(token, artistIds);
+  await this.prefetchArtists([song], token, artists);
 
   // Collect all genres from all artists, deduplicated
   const allGenres: string[] = [];
   for (const artistId of artistIds) {
-    const genres = genreMap.get(artistId) ?? [];
+    const genres = artists.byId.get(artistId)?.genres ?? [];
     for (const g of genres) {
       if (!allGenres.includes(g)) allGenres.push(g);
     }
   }
 
-  return { ...song, genres: allGenres };
+  if (!linkArtistNotes) return { ...song, genres: allGenres };
+
+  // Create/update artist notes so the song note can link to them
+  const songArtists = [];
+  for (const a of song.artists ?? []) {
+    const artist = artists.byId.get(a.id);
+    let note = artists.notes.get(a.id);
+    if (artist && note === undefined) {
+      const file = await this.upsertArtistNote(artist);
+      if (file) {
+        note = this.app.metadataCache.fileToLinktext(file, "", true);
+        artists.notes.set(a.id, note);
+      }
+    }
+    songArtists.push(note ? { ...a, note } : a);
+  }
+
+  return { ...song, genres: allGenres, artists: songArtists };
 };
 
-// Extract track ID from Spotify URL (e.g., https://open.spotify.com/track/abc123?si=...)
-private extractTrackId = (url: string): string | undefined => {
-  const match = url.match(/spotify\.com\/track\/([a-zA-Z0-9]+)/);
-  return match?.[1];
+// Case-insensitive check for macOS/Windows compatibility
+private fileExistsCaseInsensitive = (path: string) => {
+  const lowerPath = path.toLowerCase();
+  return this.app.vault.getFiles().some(f => f.path.toLowerCase() === lowerPath);
 };
 
-// Shared helper: find existing song note or create new one, then open it
-private findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) => {
-  const folder = (this.settings.songsFolder ?? "").replace(/^\/+|\/+$/g, "").trim();
-  await this.ensureFolderExists(folder);
+// Trim whitespace and leading/trailing slashes from a folder setting
+normalizeFolder = (folder: string | undefined) => {
+  return (folder ?? "").replace(/^\/+|\/+$/g, "").trim();
+};
+
+// A free "<dir>/<baseName>.md" path (or another extension), adding " - 2"-style suffixes on collisions
+private uniqueNotePath = (dir: string, baseName: string, extension = "md") => {
+  const prefix = dir ? `${dir}/` : "";
+  let filePath = `${prefix}${baseName}.${extension}`;
+  let ix = 1;
+  while (this.fileExistsCaseInsensitive(filePath)) {
+    ix += 1;
+    filePath = `${prefix}${baseName} - ${ix}.${extension}`;
+  }
+  return filePath;
+};
 
-  // Search for existing note by track_id
+// Find the first markdown note in a folder (or the whole vault) whose frontmatter `key` equals `value`.
+// Song notes are skipped: they carry their album's album_id too, and must never be taken for an album note.
+private findNoteByProperty = (folder: string, key: string, value: string) => {
   const files = folder
-    ? this.app.vault.getFiles().filter((f) => f.path.startsWith(`${folder}/`))
-    : this.app.vault.getFiles();
+    ? this.app.vault.getMarkdownFiles().filter((f) => f.path.startsWith(`${folder}/`))
+    : this.app.vault.getMarkdownFiles();
+
+  return files.find((file) => {
+    if (this.songIndex.trackIdAt(file.path) !== undefined) return false;
+    const v = this.app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+    return v !== undefined && v !== null && String(v) === value;
+  });
+};
+
+// Open a file in the current leaf or a new split, with the properties folded
+private openNote = async (file: TFile, splitRight: boolean) => {
+  const leaf = splitRight
+    ? this.app.workspace.getLeaf("split", "vertical")
+    : this.app.workspace.getLeaf(false);
+  await leaf.openFile(file);
+  await this.foldPropertiesInActiveLeaf();
+};
+
+// Render the file name template into a free path inside the songs folder, creating any subfolders
+private buildSongNotePath = async (song: Song, folder: string) => {
+  const template = this.settings.songFileNameTemplate.trim() || DEFAULT_SETTINGS.songFileNameTemplate;
+  const rendered = renderTemplate(template, songTemplateValues(song));
+
+  // Sanitize each segment separately so templates like {{album}}/{{title}} create subfolders
+  const segments = rendered
+    .replace(/\.md$/i, "")
+    .split("/")
+    .map((p) => this.sanitizeFileName(p))
+    .filter(Boolean);
+  const baseName = segments.pop() || this.sanitizeFileName(song.name || "Untitled Song") || "Untitled Song";
+  const dir = [folder, ...segments].filter(Boolean).join("/");
+  await this.ensureFolderExists(dir);
+  return this.uniqueNotePath(dir, baseName);
+};
+
+// Render the body template for a new song note, from the inline template or a template file in the vault
+private buildSongNoteBody = async (song: Song) => {
+  let template = this.settings.songBodyTemplate;
+  if (this.settings.songBodyTemplateSource === "file") {
+    const path = normalizePath(this.settings.songBodyTemplateFile.trim());
+    const file =
+      this.app.vault.getAbstractFileByPath(path) ??
+      this.app.vault.getAbstractFileByPath(`${path}.md`);
+    if (file instanceof TFile) {
+      template = await this.app.vault.read(file);
+    } else {
+      new Notice(`❌ Template file "${path}" not found, using an empty body`);
+      template = "";
+    }
+  }
+  return renderTemplate(template, songTemplateValues(song));
+};
+
+// Find the song's note and update its properties, or create it from the templates. Undefined on failure.
+// Bulk callers pass `songNotes` (from songNotesByTrackId) so notes created along the way are seen too.
+// `extra` properties (e.g. liked_at) are written alongside the song's own.
+private upsertSongNote = async (
+  song: Song,
+  songNotes?: Map<string, TFile>,
+  extra: FrontmatterEntry[] = []
+): Promise<{ file: TFile; created: boolean } | undefined> => {
+  const folder = this.normalizeFolder(this.settings.songsFolder);
+  await this.ensureFolderExists(folder);
 
-  for (const file of files) {
-    if ((file.extension ?? "") !== "md") continue;
+  // Search for existing note by track id
+  const existing = songNotes ? songNotes.get(song.id) : this.songIndex.get(song.id);
+  if (existing) {
     try {
-      const content = await this.app.vault.read(file);
-      if (new RegExp(`^\\s*track_id\\s*:\\s*["']?${song.id}["']?\\s*$`, "m").test(content)) {
-        const newFm = this.buildSongFrontmatter(song);
-        const updated = this.upsertFrontmatter(content, newFm);
-        if (updated !== content) await this.app.vault.modify(file, updated);
-
-        const leaf = splitRight
-          ? this.app.workspace.getLeaf("split", "vertical")
-          : this.app.workspace.getLeaf(false);
-        await leaf.openFile(file);
-        await this.foldPropertiesInActiveLeaf();
-        new Notice("✅ Opened existing song note (updated)");
-        return;
-      }
+      const content = await this.app.vault.read(existing);
+      const updated = mergeFrontmatter(content, [...this.buildSongFrontmatter(song), ...extra]);
+      if (updated !== content) await this.app.vault.modify(existing, updated);
+      return { file: existing, created: false };
     } catch (e) {
       console.error(e);
     }
   }
 
   // No existing note found - create new one
-  const frontmatter = this.buildSongFrontmatter(song);
-  const body = ``;
-  const baseName = this.sanitizeFileName(song.name || "Untitled Song");
-  const prefix = folder ? `${folder}/` : "";
-  let filePath = `${prefix}${baseName}.md`;
-
-  // Case-insensitive check for macOS/Windows compatibility
-  const fileExistsCaseInsensitive = (path: string) => {
-    const lowerPath = path.toLowerCase();
-    return this.app.vault.getFiles().some(f => f.path.toLowerCase() === lowerPath);
-  };
-
-  let ix = 1;
-  while (fileExistsCaseInsensitive(filePath)) {
-    ix += 1;
-    filePath = `${prefix}${baseName} - ${ix}.md`;
-  }
+  const body = await this.buildSongNoteBody(song);
+  const filePath = await this.buildSongNotePath(song, folder);
 
   try {
-    const file = await this.app.vault.create(filePath, `${frontmatter}\n\n${body}`);
-    const leaf = splitRight
-      ? this.app.workspace.getLeaf("split", "vertical")
-      : this.app.workspace.getLeaf(false);
-    await leaf.openFile(file);
-    await this.foldPropertiesInActiveLeaf();
-    new Notice("✅ Created song note");
+    const file = await this.app.vault.create(
+      filePath,
+      // A template may bring its own frontmatter, the song properties are merged into it
+      mergeFrontmatter(
+        splitFrontmatter(body) ? body : `\n${body}`,
+        [...this.buildSongFrontmatter(song), ...extra]
+      )
+    );
+    songNotes?.set(song.id, file);
+    this.songIndex.set(song.id, file);
+    return { file, created: true };
   } catch (e) {
     console.error("Error creating song note:", e);
+    return undefined;
+  }
+};
+
+// Shared helper: find existing song note or create new one, then open it
+findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) => {
+  const result = await this.upsertSongNote(song);
+  if (!result) {
     new Notice("❌ Failed to create song note");
+    return;
   }
+
+  await this.openNote(result.file, splitRight);
+  new Notice(result.created ? "✅ Created song note" : "✅ Opened existing song note (updated)");
+};
+
+// Every song note by its track id, from the index
+songNotesByTrackId = () => {
+  return this.songIndex.entries();
 };
 
-  // Create or open a song note for the current playing song
-  createSongNote = async () => {
+  /** Build the frontmatter properties the plugin owns for an artist note */
+  private buildArtistFrontmatter = (artist: Artist): FrontmatterEntry[] => {
+    return [
+      ["Artist name", yamlString(artist.name)],
+      ["artist_id", yamlString(artist.id)],
+      ["Artist link", yamlString(artist.link ?? "")],
+      ["genres", yamlList(artist.genres)],
+      ["followers", `${artist.followers ?? '""'}`],
+      ["popularity", `${artist.popularity ?? '""'}`],
+      ["image", yamlString(artist.image ?? "")],
+    ];
+  };
+
+  // Find the artist's note by artist_id and update it, or create it in the artists folder
+  private upsertArtistNote = async (artist: Artist): Promise<TFile | undefined> => {
+    const folder = this.normalizeFolder(this.settings.artistsFolder);
+    try {
+      await this.ensureFolderExists(folder);
+      const existing = this.findNoteByProperty(folder, "artist_id", artist.id);
+      if (existing) {
+        const content = await this.app.vault.read(existing);
+        const updated = mergeFrontmatter(content, this.buildArtistFrontmatter(artist));
+        if (updated !== content) await this.app.vault.modify(existing, updated);
+        return existing;
+      }
+
+      const baseName = this.sanitizeFileName(artist.name) || "Untitled Artist";
+      return await this.app.vault.create(
+        this.uniqueNotePath(folder, baseName),
+        mergeFrontmatter("\n", this.buildArtistFrontmatter(artist))
+      );
+    } catch (e) {
+      console.error(`Error writing artist note for ${artist.name}:`, e);
+      return undefined;
+    }
+  };
+
+  // Create or open an artist note for `artistId`, else an artist of the active song note or of the current playing song
+  createArtistNote = async (artistId?: string) => {
     const token = await getToken();
     if (token === undefined) {
       new Notice("🎵 Connect Spotify in settings first");
@@ -362,36 +612,171 @@ private findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) =>
       return;
     }
 
-    const song = await fetchCurrentSong(token.access_token);
-    if (song === undefined) {
-      new Notice("❌ No song playing");
+    // Prefer the artists of the active song note
+    let artistIds: string[] = artistId ? [artistId] : [];
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!artistIds.length && activeFile) {
+      const idsKey = songPropertyKey(this.settings.songProperties, "artistIds");
+      const ids = this.app.metadataCache.getFileCache(activeFile)?.frontmatter?.[idsKey];
+      if (Array.isArray(ids)) artistIds = ids.filter((id) => typeof id === "string" && id);
+    }
+
+    if (!artistIds.length) {
+      const song = await fetchCurrentSong(token.access_token);
+      artistIds = (song?.artists ?? []).map((a) => a.id).filter(Boolean);
+    }
+
+    if (!artistIds.length) {
+      new Notice("❌ No artists in this note and no song playing");
       return;
     }
 
-    const enrichedSong = await this.enrichSongWithGenres(song, token.access_token);
-    await this.findOrCreateAndOpenSongNote(enrichedSong, false);
+    const artists = [...(await fetchArtists(token.access_token, artistIds)).values()];
+    const artist =
+      artists.length > 1
+        ? await pickFromList(this.app, artists, (a) => a.name, "Choose an artist")
+        : artists[0];
+    if (!artist) {
+      if (!artists.length) new Notice("❌ Could not fetch artist from Spotify");
+      return;
+    }
+
+    const file = await this.upsertArtistNote(artist);
+    if (!file) {
+      new Notice("❌ Failed to create artist note");
+      return;
+    }
+    await this.openNote(file, false);
+    new Notice("✅ Opened artist note");
   };
 
-  // Open song note from the "Song link" property of the active note
-  openSongNoteFromLink = async () => {
+  /** Build the frontmatter properties the plugin owns for an album note */
+  private buildAlbumFrontmatter = (album: Album): FrontmatterEntry[] => {
+    return [
+      ["Album name", yamlString(album.name)],
+      ["album_id", yamlString(album.id)],
+      ["Album link", yamlString(album.link ?? "")],
+      ["album_type", yamlString(album.album_type ?? "")],
+      ["label", yamlString(album.label ?? "")],
+      ["total_tracks", `${album.total_tracks ?? '""'}`],
+      ["Release date", yamlString(album.release_date ?? "")],
+      ["artists_all", yamlList(album.artists.map((a) => a.name).filter(Boolean))],
+      ["cover", yamlString(album.image ?? "")],
+    ];
+  };
+
+  // Tracklist for an album note, linking tracks that already have a song note
+  private buildTracklist = (album: Album, songNotes: Map<string, TFile>, sourcePath: string) => {
+    const multiDisc = album.tracks.some((t) => (t.disc_number ?? 1) > 1);
+    const lines: string[] = [];
+    let disc: number | undefined;
+    for (const track of album.tracks) {
+      if (multiDisc && track.disc_number !== disc) {
+        disc = track.disc_number;
+        lines.push(`${lines.length ? "\n" : ""}**Disc ${disc ?? 1}**`);
+      }
+
+      const artists = (track.artists ?? []).map((a) => a.name).join(", ");
+      const note = songNotes.get(track.id);
+      const title = note
+        ? `[[${this.app.metadataCache.fileToLinktext(note, sourcePath, true)}|${track.name}]]`
+        : `${track.name} ([Spotify](${track.link}))`;
+      lines.push(`${track.track_number ?? lines.length + 1}. ${title} — ${artists}`);
+    }
+
+    const missing = album.tracks.filter((t) => !songNotes.has(t.id)).length;
+    if (missing) {
+      const url = `obsidian://music-vault-missing-songs?album=${album.id}`;
+      lines.push("", `${missing} track(s) without a song note. [Create missing song notes](${url})`);
+    }
+    return lines.join("\n");
+  };
+
+  // Find the album's note by album_id and update it (properties and tracklist), or create it in the albums folder
+  private upsertAlbumNote = async (album: Album): Promise<TFile | undefined> => {
+    const folder = this.normalizeFolder(this.settings.albumsFolder);
+    try {
+      await this.ensureFolderExists(folder);
+      const songNotes = this.songNotesByTrackId();
+      const existing = this.findNoteByProperty(folder, "album_id", album.id);
+      if (existing) {
+        const content = await this.app.vault.read(existing);
+        const updated = upsertSection(
+          mergeFrontmatter(content, this.buildAlbumFrontmatter(album)),
+          "tracklist",
+          this.buildTracklist(album, songNotes, existing.path)
+        );
+        if (updated !== content) await this.app.vault.modify(existing, updated);
+        return existing;
+      }
+
+      const baseName = this.sanitizeFileName(album.name) || "Untitled Album";
+      const filePath = this.uniqueNotePath(folder, baseName);
+      const body = upsertSection("## Tracklist\n", "tracklist", this.buildTracklist(album, songNotes, filePath));
+      return await this.app.vault.create(
+        filePath,
+        mergeFrontmatter(`\n${body}`, this.buildAlbumFrontmatter(album))
+      );
+    } catch (e) {
+      console.error(`Error writing album note for ${album.name}:`, e);
+      return undefined;
+    }
+  };
+
+  // Album id from the active note's frontmatter (song or album note), falling back to the current playing song
+  private resolveAlbumId = async (token: string) => {
     const activeFile = this.app.workspace.getActiveFile();
-    if (!activeFile) {
-      new Notice("❌ No active note");
+    if (activeFile) {
+      const fm = this.app.metadataCache.getFileCache(activeFile)?.frontmatter;
+      const albumIdKey = songPropertyKey(this.settings.songProperties, "albumId");
+      const id = fm?.["album_id"] ?? fm?.[albumIdKey];
+      if (typeof id === "string" && id) return id;
+    }
+    const song = await fetchCurrentSong(token);
+    return song?.album?.id;
+  };
+
+  // Create or open an album note with its full tracklist, for `albumId` or else the active note's or current song's album
+  createAlbumNote = async (albumId?: string) => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
       return;
     }
 
-    // Read frontmatter to get Song link
-    const content = await this.app.vault.read(activeFile);
-    const linkMatch = content.match(/^["']?Song link["']?:\s*["']([^"']+)["']\s*$/m);
-    if (!linkMatch) {
-      new Notice("❌ No 'Song link' property found");
+    const id = albumId ?? (await this.resolveAlbumId(token.access_token));
+    if (!id) {
+      new Notice("❌ No album in this note and no song playing");
       return;
     }
 
-    const songLink = linkMatch[1].trim();
-    const trackId = this.extractTrackId(songLink);
-    if (!trackId) {
-      new Notice("❌ Invalid Spotify track URL");
+    const album = await fetchAlbum(token.access_token, id);
+    if (!album) {
+      new Notice("❌ Could not fetch album from Spotify");
+      return;
+    }
+
+    const file = await this.upsertAlbumNote(album);
+    if (!file) {
+      new Notice("❌ Failed to create album note");
+      return;
+    }
+    await this.openNote(file, false);
+    new Notice("✅ Opened album note");
+  };
+
+  // Create song notes for every track of an album (`albumId`, or the active album note's) that doesn't have one yet,
+  // then update the album note's tracklist
+  createMissingAlbumSongNotes = async (albumId?: string) => {
+    const activeFile = this.app.workspace.getActiveFile();
+    // Song notes have an album_id as well, only album notes count here
+    const isAlbumNote = activeFile && this.songIndex.trackIdAt(activeFile.path) === undefined;
+    albumId ??= isAlbumNote
+      ? this.app.metadataCache.getFileCache(activeFile)?.frontmatter?.["album_id"]
+      : undefined;
+    if (typeof albumId !== "string" || !albumId) {
+      new Notice("❌ Open an album note first");
       return;
     }
 
@@ -402,18 +787,120 @@ private findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) =>
       return;
     }
 
-    const song = await fetchSongById(token.access_token, trackId);
-    if (song === undefined) {
-      new Notice("❌ Could not fetch song from Spotify");
+    const album = await fetchAlbum(token.access_token, albumId);
+    if (!album) {
+      new Notice("❌ Could not fetch album from Spotify");
       return;
     }
 
-    const enrichedSong = await this.enrichSongWithGenres(song, token.access_token);
-    await this.findOrCreateAndOpenSongNote(enrichedSong, true);
+    const songNotes = this.songNotesByTrackId();
+    const missing = album.tracks.filter((t) => !songNotes.has(t.id));
+    new Notice(`Creating ${missing.length} song notes...`);
+
+    let created = 0;
+    let failed = 0;
+    const artists = newArtistCache();
+    // Album tracks are simplified, fetch the full tracks for isrc, popularity etc.
+    const songs = await fetchSongsByIds(
+      token.access_token,
+      missing.map((t) => t.id)
+    );
+    await this.prefetchArtists([...songs.values()], token.access_token, artists);
+    for (const track of missing) {
+      const song = songs.get(track.id);
+      const result = song
+        ? await this.upsertSongNote(await this.enrichSong(song, token.access_token, artists), songNotes)
+        : undefined;
+      if (result) created++;
+      else failed++;
+    }
+
+    await this.upsertAlbumNote(album);
+    new Notice(`✅ Created ${created} song notes${failed ? `, ${failed} failed` : ""}`);
+  };
+
+  /** Build the frontmatter properties the plugin owns for a playlist note */
+  private buildPlaylistFrontmatter = (playlist: Playlist): FrontmatterEntry[] => {
+    return [
+      ["Playlist name", yamlString(playlist.name)],
+      ["playlist_id", yamlString(playlist.id)],
+      ["Playlist link", yamlString(playlist.link ?? "")],
+      ["owner", yamlString(playlist.owner ?? "")],
+      ["description", yamlString(playlist.description ?? "")],
+      ["track_count", `${playlist.tracks.length}`],
+      ["snapshot_id", yamlString(playlist.snapshot_id ?? "")],
+      ["cover", yamlString(playlist.image ?? "")],
+      ["last_synced", yamlString(moment().format("YYYY-MM-DDTHH:mm"))],
+    ];
   };
 
-  // Refresh all song notes in the songs folder
-  refreshAllSongNotes = async () => {
+  // Tracklist for a playlist note, with a summary of what changed since the previous sync.
+  // Every line ends with the track's Spotify link, which is how the next sync knows what was there before.
+  private buildPlaylistSection = (
+    playlist: Playlist,
+    songNotes: Map<string, TFile>,
+    sourcePath: string,
+    previous: string | undefined
+  ) => {
+    const trackLinkPattern = /\(https:\/\/open\.spotify\.com\/track\/([a-zA-Z0-9]+)\)\s*$/;
+    const previousLines = new Map<string, string>();
+    for (const line of (previous ?? "").split("\n")) {
+      const m = line.match(trackLinkPattern);
+      if (m && /^\d+\.\s/.test(line)) previousLines.set(m[1], line);
+    }
+    const currentIds = new Set(playlist.tracks.map((t) => t.song.id));
+    const isFirstSync = previous === undefined;
+
+    const lines = playlist.tracks.map(({ song, added_at, added_by }, i) => {
+      const note = songNotes.get(song.id);
+      const title = note
+        ? `[[${this.app.metadataCache.fileToLinktext(note, sourcePath, true)}|${song.name}]]`
+        : song.name;
+      const artists = (song.artists ?? []).map((a) => a.name).join(", ");
+      const added = [
+        added_at ? `added ${added_at.slice(0, 10)}` : "",
+        added_by ? `by ${added_by}` : "",
+      ].filter(Boolean).join(" ");
+      const isNew = !isFirstSync && !previousLines.has(song.id);
+      return `${i + 1}. ${isNew ? "🆕 " : ""}${title} — ${artists}${added ? ` · ${added}` : ""} · [Spotify](https://open.spotify.com/track/${song.id})`;
+    });
+
+    if (isFirstSync) return lines.join("\n");
+
+    // Summarize the changes since the previous sync
+    const addedCount = playlist.tracks.filter((t) => !previousLines.has(t.song.id)).length;
+    const removed = [...previousLines.entries()]
+      .filter(([id]) => !currentIds.has(id))
+      .map(([, line]) => line.replace(/^\d+\.\s+(🆕\s+)?/, ""));
+    const summary = [
+      `**Synced ${moment().format("YYYY-MM-DD")}**: ${addedCount} added, ${removed.length} removed`,
+      ...removed.map((line) => `- Removed: ${line}`),
+    ];
+    return [...summary, "", ...lines].join("\n");
+  };
+
+  // Let the user pick one of their playlists, or paste a playlist URL
+  private choosePlaylistId = async (token: string) => {
+    const pasteOption: PlaylistSummary = { id: "", name: "Paste a playlist URL…" };
+    const playlists = await fetchUserPlaylists(token);
+    const choice = await pickFromList(
+      this.app,
+      [pasteOption, ...playlists],
+      (p) => (p.id ? `${p.name}${p.owner ? ` — ${p.owner}` : ""} (${p.total_tracks ?? 0})` : p.name),
+      "Choose a playlist to import"
+    );
+    if (!choice) return undefined;
+    if (choice.id) return choice.id;
+
+    const input = await promptForText(this.app, "Import Spotify playlist", "https://open.spotify.com/playlist/…");
+    if (!input) return undefined;
+    const id = parseSpotifyId(input, "playlist");
+    if (!id) new Notice("❌ Invalid Spotify playlist URL");
+    return id;
+  };
+
+  // Import a playlist (`playlistId`, or one the user chooses): create/update a song note for every track and sync the playlist note
+  importPlaylist = async (playlistId?: string) => {
     const token = await getToken();
     if (token === undefined) {
       new Notice("🎵 Connect Spotify in settings first");
@@ -421,99 +908,1145 @@ private findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) =>
       return;
     }
 
-    const folder = (this.settings.songsFolder ?? "").replace(/^\/+|\/+$/g, "").trim();
-    const files = folder
-      ? this.app.vault.getFiles().filter((f) => f.path.startsWith(`${folder}/`))
-      : this.app.vault.getFiles();
+    const id = playlistId ?? (await this.choosePlaylistId(token.access_token));
+    if (!id) return;
 
-    // Collect files with track_id
-    const songFiles: { file: typeof files[0]; trackId: string; content: string }[] = [];
-    for (const file of files) {
-      if ((file.extension ?? "") !== "md") continue;
-      try {
-        const content = await this.app.vault.read(file);
-        const match = content.match(/^\s*track_id\s*:\s*["']?([a-zA-Z0-9]+)["']?\s*$/m);
-        if (match) {
-          songFiles.push({ file, trackId: match[1], content });
-        }
-      } catch (e) {
-        console.error(e);
+    const playlist = await fetchPlaylist(token.access_token, id);
+    if (!playlist) {
+      new Notice("❌ Could not fetch playlist from Spotify");
+      return;
+    }
+
+    new Notice(`Importing ${playlist.tracks.length} tracks from ${playlist.name}...`);
+    const songNotes = this.songNotesByTrackId();
+    const artists = newArtistCache();
+    let created = 0;
+    let failed = 0;
+    for (let i = 0; i < playlist.tracks.length; i++) {
+      const song = await this.enrichSong(playlist.tracks[i].song, token.access_token, artists);
+      const result = await this.upsertSongNote(song, songNotes);
+      if (!result) failed++;
+      else if (result.created) created++;
+
+      // Progress notice every 25 tracks
+      if ((i + 1) % 25 === 0) {
+        new Notice(`Progress: ${i + 1}/${playlist.tracks.length} tracks imported`);
       }
     }
 
-    if (songFiles.length === 0) {
-      new Notice("No song notes found to refresh");
+    const file = await this.upsertPlaylistNote(playlist, songNotes);
+    if (!file) {
+      new Notice("❌ Failed to write playlist note");
       return;
     }
+    await this.openNote(file, false);
+    new Notice(`✅ Imported ${playlist.name}: ${created} new song notes${failed ? `, ${failed} failed` : ""}`);
+  };
 
-    new Notice(`Refreshing ${songFiles.length} song notes...`);
+  // Find the playlist's note by playlist_id and sync it, or create it in the playlists folder
+  private upsertPlaylistNote = async (
+    playlist: Playlist,
+    songNotes: Map<string, TFile>
+  ): Promise<TFile | undefined> => {
+    const folder = this.normalizeFolder(this.settings.playlistsFolder);
+    try {
+      await this.ensureFolderExists(folder);
+      const existing = this.findNoteByProperty(folder, "playlist_id", playlist.id);
+      if (existing) {
+        const content = await this.app.vault.read(existing);
+        const section = this.buildPlaylistSection(
+          playlist,
+          songNotes,
+          existing.path,
+          readSection(content, "playlist")
+        );
+        const updated = upsertSection(
+          mergeFrontmatter(content, this.buildPlaylistFrontmatter(playlist)),
+          "playlist",
+          section
+        );
+        if (updated !== content) await this.app.vault.modify(existing, updated);
+        return existing;
+      }
 
-    let updated = 0;
-    let failed = 0;
+      const baseName = this.sanitizeFileName(playlist.name) || "Untitled Playlist";
+      const filePath = this.uniqueNotePath(folder, baseName);
+      const body = upsertSection(
+        "## Tracks\n",
+        "playlist",
+        this.buildPlaylistSection(playlist, songNotes, filePath, undefined)
+      );
+      return await this.app.vault.create(
+        filePath,
+        mergeFrontmatter(`\n${body}`, this.buildPlaylistFrontmatter(playlist))
+      );
+    } catch (e) {
+      console.error(`Error writing playlist note for ${playlist.name}:`, e);
+      return undefined;
+    }
+  };
 
-    for (let i = 0; i < songFiles.length; i++) {
-      const { file, trackId, content } = songFiles[i];
-      try {
-        const song = await fetchSongById(token.access_token, trackId);
-        if (!song) {
-          failed++;
-          continue;
-        }
+  // Let the user pick a playlist note to push to (the active one first), or a new playlist named after the selection.
+  // Only notes in the playlists folder are offered, as that is where upsertPlaylistNote finds them again,
+  // and only for playlists the user can change: their own and collaborative ones, not ones they merely follow.
+  private choosePushTarget = async (token: string, description: string) => {
+    const profile = await fetchProfile(token);
+    const editable = new Set(
+      (await fetchUserPlaylists(token))
+        .filter((p) => p.collaborative || (profile?.id !== undefined && p.owner_id === profile.id))
+        .map((p) => p.id)
+    );
 
-        const enrichedSong = await this.enrichSongWithGenres(song, token.access_token);
-        const newFm = this.buildSongFrontmatter(enrichedSong);
-        const updatedContent = this.upsertFrontmatter(content, newFm);
+    const folder = this.normalizeFolder(this.settings.playlistsFolder);
+    const active = this.app.workspace.getActiveFile();
+    const notes = this.app.vault
+      .getMarkdownFiles()
+      .filter((f) => !folder || f.path.startsWith(`${folder}/`))
+      .map((file) => ({ file, id: this.app.metadataCache.getFileCache(file)?.frontmatter?.playlist_id }))
+      .filter((n): n is { file: TFile; id: string } => typeof n.id === "string" && editable.has(n.id.trim()))
+      .sort((a, b) => Number(b.file === active) - Number(a.file === active) || a.file.basename.localeCompare(b.file.basename));
+
+    const newOption = { file: undefined, id: "" };
+    const choice = await pickFromList<{ file?: TFile; id: string }>(
+      this.app,
+      [newOption, ...notes],
+      (n) => n.file?.basename ?? "New playlist…",
+      "Push to which playlist?"
+    );
+    if (!choice) return undefined;
+    if (choice.id) return { id: choice.id.trim(), name: choice.file?.basename ?? "" };
 
-        if (updatedContent !== content) {
-          await this.app.vault.modify(file, updatedContent);
-          updated++;
-        }
-      } catch (e) {
-        console.error(`Failed to refresh ${file.path}:`, e);
-        failed++;
-      }
+    const name = await promptForText(this.app, "New Spotify playlist", description);
+    return name === undefined ? undefined : { id: undefined, name: name || description };
+  };
 
-      // Progress notice every 10 files
-      if ((i + 1) % 10 === 0) {
-        new Notice(`Progress: ${i + 1}/${songFiles.length} notes processed`);
-      }
+  // Create or update a Spotify playlist from song notes the user selects, then sync its playlist note.
+  // The playlist note keeps the playlist_id, so pushing to it again replaces the tracks instead of creating a duplicate.
+  pushPlaylist = async () => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
     }
 
-    new Notice(`✅ Refresh complete: ${updated} updated, ${failed} failed`);
-  };
+    // Connections made before pushing was possible lack the playlist-modify scopes
+    if (!token.scope?.split(" ").includes("playlist-modify-private")) {
+      const notice = new Notice("🎵 Pushing playlists needs new Spotify permissions, click here to reconnect", 0);
+      notice.noticeEl.addEventListener("click", () => {
+        notice.hide();
+        this.connectSpotify();
+      });
+      return;
+    }
 
-  /**
-   * onload for the plugin. Simply load settings, add the plugins command, and register a SettingTab
-   */
-  async onload() {
-    await this.loadSettings();
+    const selection = await chooseSongs(
+      this,
+      ["folder", "tag", "filter", "links"],
+      "Push which songs to a Spotify playlist?"
+    );
+    if (!selection) return;
+    if (!selection.songs.length) {
+      new Notice(`❌ No songs found for ${selection.description}`);
+      return;
+    }
 
-    // This adds an editor command that can perform some operation on the current editor instance
-    this.addCommand({
-      id: "insert-song-link",
-      name: "Insert song link",
-      editorCallback: this.insertSongLink,
-    });
+    const target = await this.choosePushTarget(token.access_token, selection.description);
+    if (!target) return;
 
-    // New command to create/open song note (users can assign hotkey via Obsidian)
-    this.addCommand({
-      id: "create-song-note",
-      name: "Create/open song note",
-      callback: this.createSongNote,
-    });
+    new Notice(`Pushing ${selection.songs.length} songs to Spotify...`);
+    const id = target.id ?? (await createPlaylist(token.access_token, target.name, `From ${selection.description}`));
+    await replacePlaylistTracks(token.access_token, id, selection.songs.map((s) => s.trackId));
+
+    const playlist = await fetchPlaylist(token.access_token, id);
+    if (!playlist) {
+      new Notice("✅ Pushed songs, but could not fetch the playlist back from Spotify");
+      return;
+    }
+    const file = await this.upsertPlaylistNote(playlist, this.songNotesByTrackId());
+    if (!file) {
+      new Notice("✅ Pushed songs, but failed to write the playlist note");
+      return;
+    }
+    await this.openNote(file, false);
+    new Notice(`✅ Pushed ${playlist.tracks.length} songs to ${playlist.name}`);
+  };
+
+  // Read what an export needs from a song note's frontmatter, following the property mapping
+  private toExportedSong = (file: TFile, trackId: string): ExportedSong => {
+    const properties: Record<string, unknown> = { ...this.app.metadataCache.getFileCache(file)?.frontmatter };
+    const get = (field: SongField) => properties[songPropertyKey(this.settings.songProperties, field)];
+    const text = (value: unknown) =>
+      typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+    // Artists may be a list, comma separated text or wikilinks, depending on the property format
+    const artists = get("artists");
+    const artistNames = (Array.isArray(artists) ? artists.map(text) : text(artists).split(", "))
+      .map((a) => a.replace(/^\[\[(?:[^\]|]*\|)?([^\]]*)\]\]$/, "$1"))
+      .filter(Boolean);
+
+    return {
+      path: file.path,
+      properties,
+      trackId,
+      title: text(get("name")) || file.basename,
+      artists: artistNames,
+      album: text(get("album")) || undefined,
+      durationMs: parseDurationMs(get("duration")),
+      isrc: text(get("isrc")) || undefined,
+    };
+  };
+
+  // Export song notes (all of them, or a folder/tag) as CSV, JSON, M3U or XSPF into the exports folder
+  exportSongLibrary = async () => {
+    const selection = await chooseSongs(this, ["all", "folder", "tag"], "Export which song notes?");
+    if (!selection) return;
+    const songs = selection.songs.filter((s): s is Required<SelectedSong> => s.file !== undefined);
+    if (!songs.length) {
+      new Notice(`❌ No song notes found for ${selection.description}`);
+      return;
+    }
+
+    const format = await pickFromList(
+      this.app,
+      Object.keys(exportFormats) as ExportFormat[],
+      (f) => exportFormats[f].label,
+      "Export as…"
+    );
+    if (!format) return;
+    const { extension, render } = exportFormats[format];
+
+    const folder = this.normalizeFolder(this.settings.exportsFolder);
+    await this.ensureFolderExists(folder);
+    const baseName = this.sanitizeFileName(
+      `Songs - ${selection.description.replace(/[#^[\]]/g, "")} - ${moment().format("YYYY-MM-DD HHmm")}`
+    );
+    const filePath = this.uniqueNotePath(folder, baseName, extension);
+    await this.app.vault.create(filePath, render(songs.map((s) => this.toExportedSong(s.file, s.trackId))));
+    new Notice(`✅ Exported ${songs.length} songs to ${filePath}`);
+  };
+
+  // Create song notes for likes since the last sync (with liked_at), and optionally flag unliked ones
+  syncLikedSongs = async () => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    // Flagging unliked songs needs the whole library, otherwise only fetch what's new
+    const cursor = this.settings.likedSongsCursor || undefined;
+    const flagUnliked = this.settings.flagUnlikedSongs;
+    const saved = await fetchSavedTracks(token.access_token, flagUnliked ? undefined : cursor);
+
+    const newLikes = cursor ? saved.filter((t) => t.added_at > cursor) : saved;
+    if (newLikes.length) new Notice(`Syncing ${newLikes.length} liked songs...`);
+
+    const songNotes = this.songNotesByTrackId();
+    const artists = newArtistCache();
+    let created = 0;
+    let failed = 0;
+    // Oldest first, so the cursor only moves past likes that were written
+    for (const { song, added_at } of [...newLikes].reverse()) {
+      const enriched = await this.enrichSong(song, token.access_token, artists);
+      const result = await this.upsertSongNote(enriched, songNotes, [
+        ["liked_at", yamlString(added_at)],
+      ]);
+      if (!result) {
+        failed++;
+        break;
+      }
+      if (result.created) created++;
+      if (added_at > this.settings.likedSongsCursor) {
+        this.settings.likedSongsCursor = added_at;
+        await this.saveSettings();
+      }
+    }
+
+    let unliked = 0;
+    if (flagUnliked) {
+      const likedIds = new Set(saved.map((t) => t.song.id));
+      for (const [trackId, file] of songNotes) {
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!fm?.["liked_at"]) continue;
+        const isUnliked = !likedIds.has(trackId);
+        if (isUnliked === (fm["unliked"] === true)) continue;
+
+        const content = await this.app.vault.read(file);
+        await this.app.vault.modify(file, mergeFrontmatter(content, [["unliked", `${isUnliked}`]]));
+        if (isUnliked) unliked++;
+      }
+    }
+
+    const parts = [`${created} new song notes`];
+    if (newLikes.length - created - failed > 0) parts.push(`${newLikes.length - created - failed} updated`);
+    if (unliked) parts.push(`${unliked} flagged as unliked`);
+    if (failed) parts.push("stopped after a failure, run again to continue");
+    new Notice(`✅ Liked Songs synced: ${parts.join(", ")}`);
+  };
+
+  // Read streaming history files from the vault, or picked with the system file picker
+  private readStreamingHistoryFiles = async () => {
+    const source = await pickFromList(
+      this.app,
+      ["vault", "picker"],
+      (s) => (s === "vault" ? "History files in this vault" : Platform.isDesktop ? "Pick a folder…" : "Pick files…"),
+      "Where are your streaming history files?"
+    );
+    if (!source) return undefined;
+
+    if (source === "vault") {
+      const files = this.app.vault.getFiles().filter((f) => historyFilePattern.test(f.name));
+      return Promise.all(files.map((f) => this.app.vault.read(f)));
+    }
+
+    const picked = (await pickFiles(".json", Platform.isDesktop)).filter((f) => historyFilePattern.test(f.name));
+    return Promise.all(picked.map((f) => f.text()));
+  };
+
+  // Add up plays from a "Download your data" export and write the stats into song notes, creating notes for often played tracks
+  importStreamingHistory = async () => {
+    const texts = await this.readStreamingHistoryFiles();
+    if (texts === undefined) return;
+    if (!texts.length) {
+      new Notice("❌ No StreamingHistory*.json or Streaming_History_Audio_*.json files found");
+      return;
+    }
+
+    const { stats, skipped } = aggregateStreamingHistory(texts);
+    if (!stats.size) {
+      new Notice("❌ No track plays found in the history files");
+      return;
+    }
+    new Notice(`Writing listening stats for ${stats.size} tracks...`);
+
+    // Song notes by track id, and by artist + title for the older files without track ids
+    const songNotes = this.songNotesByTrackId();
+    const nameKeyProp = songPropertyKey(this.settings.songProperties, "name");
+    const artistsKeyProp = songPropertyKey(this.settings.songProperties, "artists");
+    const notesByName = new Map<string, TFile>();
+    for (const file of songNotes.values()) {
+      const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      const title = fm?.[nameKeyProp];
+      const artists = fm?.[artistsKeyProp];
+      const firstArtist = Array.isArray(artists) ? artists[0] : String(artists ?? "").split(",")[0];
+      if (typeof title === "string" && typeof firstArtist === "string") {
+        // Artists may be written as wikilinks, compare the plain names
+        notesByName.set(nameKey(firstArtist.replace(/^\[\[(?:[^|\]]*\|)?|\]\]$/g, ""), title), file);
+      }
+    }
+
+    const threshold = this.settings.historyNoteThreshold;
+    let updated = 0;
+    let created = 0;
+    let unmatched = 0;
+    for (const [key, track] of stats) {
+      const entries: FrontmatterEntry[] = [
+        ["play_count", `${track.playCount}`],
+        ["ms_played", `${track.msPlayed}`],
+        ["first_played", yamlString(moment(track.firstPlayed).format("YYYY-MM-DDTHH:mm"))],
+        ["last_played", yamlString(moment(track.lastPlayed).format("YYYY-MM-DDTHH:mm"))],
+      ];
+
+      const file = track.trackId ? songNotes.get(track.trackId) : notesByName.get(key);
+      if (file) {
+        const content = await this.app.vault.read(file);
+        const next = mergeFrontmatter(content, entries);
+        if (next !== content) {
+          await this.app.vault.modify(file, next);
+          updated++;
+        }
+        continue;
+      }
+
+      // Only tracks with an id can get a note; the details are filled in on the next refresh
+      if (threshold > 0 && track.trackId && track.playCount >= threshold) {
+        const song: Song = {
+          id: track.trackId,
+          name: track.trackName,
+          link: `https://open.spotify.com/track/${track.trackId}`,
+          artists: track.artistName ? [{ id: "", name: track.artistName }] : [],
+          album: track.albumName ? { name: track.albumName } : undefined,
+        };
+        const result = await this.upsertSongNote(song, songNotes, entries);
+        if (result?.created) created++;
+      } else {
+        unmatched++;
+      }
+    }
+
+    const parts = [`${updated} song notes updated`];
+    if (created) parts.push(`${created} created`);
+    if (unmatched) parts.push(`${unmatched} tracks without a note`);
+    if (skipped) parts.push(`${skipped} files could not be read`);
+    new Notice(`✅ Streaming history imported: ${parts.join(", ")}`);
+  };
+
+  // List song notes that are outside the songs folder, and open the one picked
+  findSongNotesOutsideFolder = async () => {
+    const files = this.songIndex.outsideSongsFolder();
+    if (!files.length) {
+      new Notice("✅ All song notes are in the song notes folder");
+      return;
+    }
+
+    const file = await pickFromList(this.app, files, (f) => f.path, `${files.length} song notes outside the song notes folder`);
+    if (file) await this.openNote(file, false);
+  };
+
+  // Create or open a song note for the current playing song (or episode), or for `trackId` when given
+  createSongNote = async (trackId?: string) => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    if (trackId) {
+      const song = await fetchSongById(token.access_token, trackId);
+      if (song === undefined) {
+        new Notice("❌ Could not fetch song from Spotify");
+        return;
+      }
+      await this.findOrCreateAndOpenSongNote(await this.enrichSong(song, token.access_token), false);
+      return;
+    }
+
+    const current = await fetchCurrentlyPlaying(token.access_token);
+    if (current?.episode) {
+      await this.findOrCreateAndOpenEpisodeNote(current.episode);
+      return;
+    }
+
+    const song = current?.song;
+    if (song === undefined) {
+      new Notice("❌ No song playing");
+      return;
+    }
+
+    const enrichedSong = await this.enrichSong(song, token.access_token);
+    await this.findOrCreateAndOpenSongNote(enrichedSong, false);
+  };
+
+  /** Build the frontmatter properties the plugin owns for a podcast episode note */
+  private buildEpisodeFrontmatter = (episode: Episode): FrontmatterEntry[] => {
+    return [
+      ["Episode name", yamlString(episode.name)],
+      ["episode_id", yamlString(episode.id)],
+      ["Episode link", yamlString(episode.link)],
+      ["show", yamlString(episode.show?.name ?? "")],
+      ["show_id", yamlString(episode.show?.id ?? "")],
+      ["publisher", yamlString(episode.show?.publisher ?? "")],
+      ["Release date", yamlString(episode.release_date ?? "")],
+      ["duration", yamlString(episode.duration_ms !== undefined ? formatDuration(episode.duration_ms) : "")],
+      ["resume_position", yamlString(
+        episode.resume_position_ms !== undefined ? formatDuration(episode.resume_position_ms) : ""
+      )],
+      ["fully_played", `${episode.fully_played ?? false}`],
+      ["cover", yamlString(episode.image ?? "")],
+    ];
+  };
+
+  // Find the episode's note by episode_id and update it, or create it (with the episode description) in the episodes folder
+  private upsertEpisodeNote = async (
+    episode: Episode
+  ): Promise<{ file: TFile; created: boolean } | undefined> => {
+    const folder = this.normalizeFolder(this.settings.episodesFolder);
+    try {
+      await this.ensureFolderExists(folder);
+      const existing = this.findNoteByProperty("", "episode_id", episode.id);
+      if (existing) {
+        const content = await this.app.vault.read(existing);
+        const updated = mergeFrontmatter(content, this.buildEpisodeFrontmatter(episode));
+        if (updated !== content) await this.app.vault.modify(existing, updated);
+        return { file: existing, created: false };
+      }
+
+      const baseName = this.sanitizeFileName(episode.name) || "Untitled Episode";
+      const file = await this.app.vault.create(
+        this.uniqueNotePath(folder, baseName),
+        mergeFrontmatter(`\n${episode.description ?? ""}\n`, this.buildEpisodeFrontmatter(episode))
+      );
+      return { file, created: true };
+    } catch (e) {
+      console.error(`Error writing episode note for ${episode.name}:`, e);
+      return undefined;
+    }
+  };
+
+  findOrCreateAndOpenEpisodeNote = async (episode: Episode) => {
+    const result = await this.upsertEpisodeNote(episode);
+    if (!result) {
+      new Notice("❌ Failed to create episode note");
+      return;
+    }
+
+    await this.openNote(result.file, false);
+    new Notice(result.created ? "✅ Created episode note" : "✅ Opened existing episode note (updated)");
+  };
+
+  // Refresh every episode note (anywhere in the vault) with the latest data, e.g. the resume position
+  refreshAllEpisodeNotes = async () => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    const episodeFiles = new Map<string, TFile>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const id = this.app.metadataCache.getFileCache(file)?.frontmatter?.["episode_id"];
+      if (typeof id === "string" && /^[a-zA-Z0-9]+$/.test(id)) episodeFiles.set(id, file);
+    }
+    if (episodeFiles.size === 0) {
+      new Notice("No episode notes found to refresh");
+      return;
+    }
+
+    const episodes = await fetchEpisodes(token.access_token, [...episodeFiles.keys()]);
+    let updated = 0;
+    for (const [id, file] of episodeFiles) {
+      const episode = episodes.get(id);
+      if (!episode) continue;
+      const content = await this.app.vault.read(file);
+      const updatedContent = mergeFrontmatter(content, this.buildEpisodeFrontmatter(episode));
+      if (updatedContent !== content) {
+        await this.app.vault.modify(file, updatedContent);
+        updated++;
+      }
+    }
+
+    const failed = episodeFiles.size - episodes.size;
+    new Notice(`✅ Refresh complete: ${updated} updated, ${failed} failed`);
+  };
+
+  /**
+   * Markdown for a Spotify URL: a link titled with the item's name, or with `asNote` a link to the item's note,
+   * which is created (or updated) first. Undefined if Spotify doesn't know the item or the note couldn't be written.
+   * `artists` and `songNotes` can be shared across calls, e.g. when converting a whole note.
+   */
+  private buildSpotifyUrlLink = async (
+    match: SpotifyUrlMatch,
+    token: string,
+    sourcePath: string,
+    asNote: boolean,
+    artists: ArtistCache = newArtistCache(),
+    songNotes: Map<string, TFile> = this.songNotesByTrackId()
+  ): Promise<string | undefined> => {
+    const link = (title: string, url?: string) => `[${title}](${url || match.text})`;
+    let file: TFile | undefined;
+
+    if (match.type === "track") {
+      const song = await fetchSongById(token, match.id);
+      if (!song) return undefined;
+      if (!asNote) return this.formatSongLink(song, token, sourcePath);
+      file = (await this.upsertSongNote(await this.enrichSong(song, token, artists), songNotes))?.file;
+    } else if (match.type === "episode") {
+      const episode = (await fetchEpisodes(token, [match.id])).get(match.id);
+      if (!episode) return undefined;
+      if (!asNote) return this.buildEpisodeLink(episode);
+      file = (await this.upsertEpisodeNote(episode))?.file;
+    } else if (match.type === "album") {
+      const album = await fetchAlbum(token, match.id);
+      if (!album) return undefined;
+      if (!asNote) return link(`${album.name} — ${album.artists.map((a) => a.name).join(", ")}`, album.link);
+      file = await this.upsertAlbumNote(album);
+    } else if (match.type === "artist") {
+      const artist = (await fetchArtists(token, [match.id])).get(match.id);
+      if (!artist) return undefined;
+      if (!asNote) return link(artist.name, artist.link);
+      file = await this.upsertArtistNote(artist);
+    } else {
+      const playlist = await fetchPlaylist(token, match.id);
+      if (!playlist) return undefined;
+      if (!asNote) return link(playlist.name, playlist.link);
+      file = await this.upsertPlaylistNote(playlist, songNotes);
+    }
+
+    return file ? this.app.fileManager.generateMarkdownLink(file, sourcePath) : undefined;
+  };
+
+  /**
+   * `editor-paste` handler: turn a pasted Spotify URL into a link, following the paste setting.
+   * The URL is pasted as is right away and replaced once Spotify has answered, so a failed lookup leaves the URL.
+   */
+  private handlePaste = async (evt: ClipboardEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+    if (evt.defaultPrevented || this.settings.pasteSpotifyLinks === "off") return;
+    const text = evt.clipboardData?.getData("text/plain") ?? "";
+    const match = parseSpotifyUrl(text);
+    if (!match) return;
+
+    // Paste the URL ourselves before anything async, the editor would paste it too once this handler yields.
+    // Without a token it simply stays a URL.
+    evt.preventDefault();
+    const from = editor.getCursor("from");
+    editor.replaceSelection(match.text);
+    const to = editor.offsetToPos(editor.posToOffset(from) + match.text.length);
+
+    try {
+      const token = await getToken();
+      if (token === undefined) return;
+      const link = await this.buildSpotifyUrlLink(
+        match,
+        token.access_token,
+        info.file?.path ?? "",
+        this.settings.pasteSpotifyLinks === "note"
+      );
+      // Only replace the URL if it is still where we put it
+      if (link && editor.getRange(from, to) === match.text) editor.replaceRange(link, from, to);
+    } catch (e) {
+      console.error(e);
+      new Notice(describeSpotifyError(e));
+    }
+  };
+
+  /** `editorCallback` that converts every bare Spotify URL/URI in the note, skipping code and URLs that already are link targets */
+  convertSpotifyUrls = async (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    const original = editor.getValue();
+    const matches: SpotifyUrlMatch[] = [];
+    let offset = 0;
+    let inFence = false;
+    for (const line of original.split("\n")) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (!inFence) {
+        for (const m of findSpotifyUrls(line)) {
+          const before = line.slice(0, m.index);
+          const inCode = (before.match(/`/g) ?? []).length % 2 === 1;
+          const isTarget = /(\]\(|<)$/.test(before);
+          if (!inCode && !isTarget) matches.push({ ...m, index: offset + m.index });
+        }
+      }
+      offset += line.length + 1;
+    }
+    if (!matches.length) {
+      new Notice("No Spotify URLs to convert");
+      return;
+    }
+
+    const asNote = this.settings.pasteSpotifyLinks === "note";
+    const sourcePath = view.file?.path ?? "";
+    const artists = newArtistCache();
+    const songNotes = this.songNotesByTrackId();
+    const links = new Map<string, string | undefined>();
+    for (const m of matches) {
+      const key = `${m.type}:${m.id}`;
+      if (links.has(key)) continue;
+      links.set(key, await this.buildSpotifyUrlLink(m, token.access_token, sourcePath, asNote, artists, songNotes));
+    }
+
+    if (editor.getValue() !== original) {
+      new Notice("❌ The note changed while converting, run the command again");
+      return;
+    }
+    const changes = matches.flatMap((m) => {
+      const text = links.get(`${m.type}:${m.id}`);
+      if (!text) return [];
+      return [{ from: editor.offsetToPos(m.index), to: editor.offsetToPos(m.index + m.text.length), text }];
+    });
+    editor.transaction({ changes });
+    new Notice(`✅ Converted ${changes.length} Spotify URL(s)${changes.length < matches.length ? `, ${matches.length - changes.length} not found` : ""}`);
+  };
+
+  /**
+   * Handle obsidian://music-vault?track=… (or album=, artist=, playlist=), taking an id, URL or URI.
+   * Opens the note for it when there is one, otherwise creates it the same way the commands do.
+   */
+  openFromUri = async (params: ObsidianProtocolData) => {
+    const types = ["track", "album", "artist", "playlist"] as const;
+    const type = types.find((t) => params[t]);
+    if (!type) {
+      new Notice("❌ Link needs a track, album, artist or playlist");
+      return;
+    }
+    const id = parseSpotifyId(params[type], type);
+    if (!id) {
+      new Notice(`❌ Invalid Spotify ${type}: ${params[type]}`);
+      return;
+    }
+
+    const folders = {
+      album: this.settings.albumsFolder,
+      artist: this.settings.artistsFolder,
+      playlist: this.settings.playlistsFolder,
+    };
+    const existing =
+      type === "track"
+        ? this.songIndex.get(id)
+        : this.findNoteByProperty(this.normalizeFolder(folders[type]), `${type}_id`, id);
+    if (existing) {
+      await this.openNote(existing, false);
+      return;
+    }
+
+    if (type === "track") await this.createSongNote(id);
+    else if (type === "album") await this.createAlbumNote(id);
+    else if (type === "artist") await this.createArtistNote(id);
+    else await this.importPlaylist(id);
+  };
+
+  // Search Spotify for any song, then create/open its note or insert a link at the cursor
+  searchSong = async () => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    // Inserting a link is only offered when there is an editor to insert into
+    const editor = this.app.workspace.activeEditor?.editor;
+    const result = await searchForSong(this.app, token.access_token, editor !== undefined);
+    if (!result) return;
+
+    if (result.insertLink && editor) {
+      const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+      editor.replaceSelection(await this.formatSongLink(result.song, token.access_token, sourcePath));
+      new Notice("✅ Added song link");
+      return;
+    }
+
+    const enrichedSong = await this.enrichSong(result.song, token.access_token);
+    await this.findOrCreateAndOpenSongNote(enrichedSong, false);
+  };
+
+  // Open song note from the "Song link" property of the active note
+  openSongNoteFromLink = async () => {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!activeFile) {
+      new Notice("❌ No active note");
+      return;
+    }
+
+    // Read frontmatter to get the song link
+    const linkKey = songPropertyKey(this.settings.songProperties, "link");
+    const content = await this.app.vault.read(activeFile);
+    const songLink = readFrontmatterValue(content, linkKey)?.trim();
+    if (!songLink) {
+      new Notice(`❌ No '${linkKey}' property found`);
+      return;
+    }
+
+    const trackId = parseSpotifyId(songLink, "track");
+    if (!trackId) {
+      new Notice("❌ Invalid Spotify track URL");
+      return;
+    }
+
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    const song = await fetchSongById(token.access_token, trackId);
+    if (song === undefined) {
+      new Notice("❌ Could not fetch song from Spotify");
+      return;
+    }
+
+    const enrichedSong = await this.enrichSong(song, token.access_token);
+    await this.findOrCreateAndOpenSongNote(enrichedSong, true);
+  };
+
+  /**
+   * Refresh every song note with the latest data from Spotify, 50 tracks per request.
+   * Notes are processed in path order and the last finished batch is saved in `refreshCursor`,
+   * so a cancelled or failed refresh can pick up where it stopped. With `dryRun`, nothing is written
+   * and the properties that would change are listed instead.
+   */
+  refreshAllSongNotes = async (dryRun = false) => {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.openSettingsPage();
+      return;
+    }
+
+    // Every indexed song note, wherever it lives
+    const songFiles = [...this.songIndex.entries()]
+      .filter(([trackId]) => /^[a-zA-Z0-9]+$/.test(trackId))
+      .map(([trackId, file]) => ({ file, trackId }))
+      .sort((a, b) => a.file.path.localeCompare(b.file.path));
+
+    if (songFiles.length === 0) {
+      new Notice("No song notes found to refresh");
+      return;
+    }
+
+    let start = 0;
+    const cursor = this.settings.refreshCursor;
+    if (!dryRun && cursor) {
+      const next = songFiles.findIndex((f) => f.file.path.localeCompare(cursor) > 0);
+      if (next > 0) {
+        const choice = await pickFromList(
+          this.app,
+          ["resume", "restart"],
+          (c) =>
+            c === "resume"
+              ? `Resume the previous refresh (${songFiles.length - next} notes left)`
+              : `Start over (${songFiles.length} notes)`,
+          "The last refresh didn't finish"
+        );
+        if (!choice) return;
+        if (choice === "resume") start = next;
+      }
+    }
+
+    const total = songFiles.length - start;
+    const progress = new ProgressModal(
+      this.app,
+      dryRun ? "Checking song notes" : "Refreshing song notes",
+      total
+    );
+    progress.open();
+
+    let done = 0;
+    let updated = 0;
+    let failed = 0;
+    const changes: { heading: string; lines: string[] }[] = [];
+    // Shared across the whole refresh so each artist is only fetched (and its note written) once
+    const artists = newArtistCache();
+    const batchSize = 50;
+
+    try {
+      for (let i = start; i < songFiles.length && !progress.cancelled; i += batchSize) {
+        const batch = songFiles.slice(i, i + batchSize);
+        let songs = new Map<string, Song>();
+        try {
+          songs = await fetchSongsByIds(token.access_token, batch.map((f) => f.trackId));
+          await this.prefetchArtists([...songs.values()], token.access_token, artists);
+        } catch (e) {
+          // Anything else only costs this batch, its notes count as failed below
+          if (isFatalSpotifyError(e)) throw e;
+          console.error("Failed to fetch a batch of songs:", e);
+        }
+
+        for (const { file, trackId } of batch) {
+          const song = songs.get(trackId);
+          if (!song) {
+            failed++;
+            continue;
+          }
+          try {
+            // Don't create artist notes on a dry run
+            const enrichedSong = await this.enrichSong(
+              song,
+              token.access_token,
+              artists,
+              this.settings.createArtistNotes && !dryRun
+            );
+            const content = await this.app.vault.read(file);
+            const entries = this.buildSongFrontmatter(enrichedSong);
+
+            if (dryRun) {
+              const diff = diffFrontmatter(content, entries);
+              if (diff.length) {
+                changes.push({
+                  heading: file.path,
+                  lines: diff.map(
+                    (c) => `${c.key}: ${c.before === undefined ? "(new)" : c.before || "(empty)"} → ${c.after}`
+                  ),
+                });
+              }
+              continue;
+            }
+
+            const updatedContent = mergeFrontmatter(content, entries);
+            if (updatedContent !== content) {
+              await this.app.vault.modify(file, updatedContent);
+              updated++;
+            }
+          } catch (e) {
+            if (isFatalSpotifyError(e)) throw e;
+            console.error(`Failed to refresh ${file.path}:`, e);
+            failed++;
+          }
+        }
+
+        done += batch.length;
+        if (!dryRun) {
+          this.settings.refreshCursor = batch[batch.length - 1].file.path;
+          await this.saveSettings();
+        }
+        progress.setProgress(done, `${done}/${total} notes`);
+      }
+    } catch (e) {
+      // No point carrying on without a connection or while rate limited; the cursor lets the next run resume
+      progress.finish();
+      new Notice(`Refresh stopped: ${updated} updated, ${failed} failed`);
+      throw e;
+    }
+
+    if (progress.cancelled) {
+      new Notice(
+        dryRun
+          ? "Dry run cancelled"
+          : `Refresh cancelled after ${done}/${total} notes: ${updated} updated, ${failed} failed`
+      );
+      return;
+    }
+    progress.finish();
+
+    if (dryRun) {
+      if (!changes.length) {
+        new Notice(`✅ All ${total} song notes are up to date`);
+        return;
+      }
+      showReport(this.app, `${changes.length} of ${total} song notes would change`, changes);
+      return;
+    }
+
+    this.settings.refreshCursor = "";
+    await this.saveSettings();
+    new Notice(`✅ Refresh complete: ${updated} updated, ${failed} failed`);
+  };
+
+  /**
+   * onload for the plugin. Simply load settings, add the plugins command, and register a SettingTab
+   */
+  async onload() {
+    await this.loadSettings();
+    if (initTokenStorage(this.app)) {
+      // Older versions shared one connection between vaults, which another vault has taken over
+      const notice = new Notice("🎵 Spotify is now connected per vault, click here to connect this vault", 0);
+      notice.noticeEl.addEventListener("click", () => {
+        notice.hide();
+        this.connectSpotify();
+      });
+    }
+    setAccessTokenRefresher(async () => (await forceRefreshToken())?.access_token);
+    setReconnectHandler(this.promptReconnect);
+    // Spotify redirects here (obsidian://music-vault-callback) at the end of a sign in
+    this.registerObsidianProtocolHandler("music-vault-callback", this.completeSpotifyAuth);
+    // Turn pasted Spotify URLs into links
+    this.registerEvent(this.app.workspace.on("editor-paste", this.handlePaste));
+
+    // Links from other apps: obsidian://music-vault?track=… (or album=, artist=, playlist=)
+    this.registerObsidianProtocolHandler("music-vault", this.withErrorNotice(this.openFromUri));
+    // The "Create missing song notes" link under album tracklists (obsidian://music-vault-missing-songs?album=ID)
+    this.registerObsidianProtocolHandler(
+      "music-vault-missing-songs",
+      this.withErrorNotice(async (params: ObsidianProtocolData) => {
+        const albumId = params.album ? parseSpotifyId(params.album, "album") : undefined;
+        if (!albumId) {
+          new Notice("❌ Link needs an album");
+          return;
+        }
+        await this.createMissingAlbumSongNotes(albumId);
+      })
+    );
+    // Timestamps inserted by "Insert song link at current position" (obsidian://music-vault-seek?track=ID&t=SECONDS)
+    this.registerObsidianProtocolHandler(
+      "music-vault-seek",
+      this.withErrorNotice(async (params: ObsidianProtocolData) => {
+        const seconds = Number(params.t);
+        if (!/^[a-zA-Z0-9]+$/.test(params.track ?? "") || !Number.isFinite(seconds)) {
+          new Notice("❌ Invalid timestamp link");
+          return;
+        }
+        await this.playback.seekTo(params.track, seconds);
+      })
+    );
+    this.listeningLog = new ListeningLog(this);
+    this.songIndex = new SongIndex(this);
+    this.playback = new Playback(this);
+    this.nowPlaying = new NowPlaying(this);
+    this.songCards = new SongCards(this);
+    // Song cards for `music-vault` code blocks and inline `music-vault: …` code
+    this.songCards.load();
+    this.app.workspace.onLayoutReady(() => this.songIndex.load());
+
+    // This adds an editor command that can perform some operation on the current editor instance
+    this.addCommand({
+      id: "insert-song-link",
+      name: "Insert song link",
+      editorCallback: this.withErrorNotice(this.insertSongLink),
+    });
+
+    // One per format, so each can have its own hotkey
+    for (const [format, { label }] of Object.entries(songLinkFormats)) {
+      this.addCommand({
+        id: `insert-song-link-${format}`,
+        name: `Insert song link as ${label.toLowerCase()}`,
+        editorCallback: this.withErrorNotice((editor: Editor, view: MarkdownView | MarkdownFileInfo) =>
+          this.insertSongLink(editor, view, format as SongLinkFormat)
+        ),
+      });
+    }
+
+    // Insert the current song with a timestamp that seeks back to this point, and note it in the song note
+    this.addCommand({
+      id: "insert-song-link-at-position",
+      name: "Insert song link at current position",
+      editorCallback: this.withErrorNotice(this.insertSongLinkAtPosition),
+    });
+
+    // New command to create/open song note (users can assign hotkey via Obsidian)
+    this.addCommand({
+      id: "create-song-note",
+      name: "Create/open song or episode note",
+      callback: this.withErrorNotice(this.createSongNote),
+    });
+
+    // Same as pasting, for Spotify URLs already in the note
+    this.addCommand({
+      id: "convert-spotify-urls",
+      name: "Convert Spotify URLs in this note",
+      editorCallback: this.withErrorNotice(this.convertSpotifyUrls),
+    });
+
+    // Search Spotify for a song to create/open a note for, or to link
+    this.addCommand({
+      id: "search-song",
+      name: "Search Spotify for a song",
+      callback: this.withErrorNotice(this.searchSong),
+    });
 
     // New command to open song note from the active note's Song link property
     this.addCommand({
       id: "open-song-note-from-link",
       name: "Open song note from link",
-      callback: this.openSongNoteFromLink,
+      callback: this.withErrorNotice(this.openSongNoteFromLink),
+    });
+
+    // Create/open a note for an artist of the active song note or the current playing song
+    this.addCommand({
+      id: "create-artist-note",
+      name: "Create/open artist note",
+      callback: this.withErrorNotice(this.createArtistNote),
+    });
+
+    // Create/open a note with the full tracklist for the album of the active note or the current playing song
+    this.addCommand({
+      id: "create-album-note",
+      name: "Create/open album note",
+      callback: this.withErrorNotice(this.createAlbumNote),
+    });
+
+    // Create song notes for the tracks of the active album note that don't have one
+    this.addCommand({
+      id: "create-missing-album-song-notes",
+      name: "Create missing song notes for album",
+      callback: this.withErrorNotice(() => this.createMissingAlbumSongNotes()),
+    });
+
+    // Import (or re-sync) a Spotify playlist: song notes for every track plus a playlist note
+    this.addCommand({
+      id: "import-playlist",
+      name: "Import Spotify playlist",
+      callback: this.withErrorNotice(this.importPlaylist),
+    });
+
+    // The other way round: song notes to a Spotify playlist
+    this.addCommand({
+      id: "push-playlist",
+      name: "Push song notes to a Spotify playlist",
+      callback: this.withErrorNotice(this.pushPlaylist),
+    });
+
+    // Song notes to CSV/JSON for analysis, or M3U/XSPF playlists for other players
+    this.addCommand({
+      id: "export-song-library",
+      name: "Export song notes",
+      callback: this.withErrorNotice(this.exportSongLibrary),
+    });
+
+    // Create song notes for everything liked since the last sync
+    this.addCommand({
+      id: "sync-liked-songs",
+      name: "Sync liked songs",
+      callback: this.withErrorNotice(this.syncLikedSongs),
+    });
+
+    // Write recent plays to the listening log right away instead of waiting for the next poll
+    this.addCommand({
+      id: "update-listening-log",
+      name: "Update listening log now",
+      callback: () => this.listeningLog.poll(true),
+    });
+
+    // Import play counts from the streaming history in a Spotify data export (works offline)
+    this.addCommand({
+      id: "import-streaming-history",
+      name: "Import streaming history from Spotify data export",
+      callback: this.withErrorNotice(this.importStreamingHistory),
+    });
+
+    // Spot song notes that were moved out of the song notes folder
+    this.addCommand({
+      id: "find-song-notes-outside-folder",
+      name: "Find song notes outside the song notes folder",
+      callback: this.findSongNotesOutsideFolder,
     });
 
     // Command to refresh all song notes with latest data from Spotify
     this.addCommand({
       id: "refresh-all-song-notes",
       name: "Refresh all song notes",
-      callback: this.refreshAllSongNotes,
+      callback: this.withErrorNotice(() => this.refreshAllSongNotes()),
+    });
+
+    // Command to refresh all podcast episode notes, e.g. to update how far each was listened to
+    this.addCommand({
+      id: "refresh-all-episode-notes",
+      name: "Refresh all episode notes",
+      callback: this.withErrorNotice(this.refreshAllEpisodeNotes),
+    });
+
+    // List what "Refresh all song notes" would change, without writing anything
+    this.addCommand({
+      id: "refresh-all-song-notes-dry-run",
+      name: "Refresh all song notes (dry run)",
+      callback: this.withErrorNotice(() => this.refreshAllSongNotes(true)),
+    });
+
+    // Spotify Connect playback controls
+    this.addCommand({
+      id: "toggle-playback",
+      name: "Play/pause",
+      callback: this.withErrorNotice(this.playback.togglePlayback),
+    });
+
+    this.addCommand({
+      id: "next-track",
+      name: "Skip to next song",
+      callback: this.withErrorNotice(this.playback.next),
+    });
+
+    this.addCommand({
+      id: "previous-track",
+      name: "Go back to previous song",
+      callback: this.withErrorNotice(this.playback.previous),
+    });
+
+    // Play the active song note, or the album/playlist of the active album/playlist note
+    this.addCommand({
+      id: "play-active-note",
+      name: "Play this song",
+      callback: this.withErrorNotice(this.playback.playActiveNote),
+    });
+
+    // Queue the active song note, or every track of the active album/playlist note
+    this.addCommand({
+      id: "queue-active-note",
+      name: "Add to queue",
+      callback: this.withErrorNotice(this.playback.queueActiveNote),
+    });
+
+    this.addCommand({
+      id: "choose-playback-device",
+      name: "Choose Spotify playback device",
+      callback: this.withErrorNotice(this.playback.chooseDevice),
     });
 
     // This adds a settings tab so the user can configure various aspects of the plugin
@@ -521,6 +2054,16 @@ private findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) =>
 
     // Temporary notification of public availability
     this.notifyPublicAvailability();
+
+    if (this.settings.syncLikedSongsOnStartup) {
+      this.app.workspace.onLayoutReady(this.withErrorNotice(this.syncLikedSongs));
+    }
+
+    // Poll recently played in the background, if enabled
+    this.app.workspace.onLayoutReady(() => this.listeningLog.start());
+
+    // Current song in the status bar, if enabled
+    this.app.workspace.onLayoutReady(() => this.nowPlaying.load());
   }
 
   /**
@@ -533,11 +2076,15 @@ private findOrCreateAndOpenSongNote = async (song: Song, splitRight: boolean) =>
    */
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Nested settings need a deeper merge so fields added later get their defaults
+    this.settings.songProperties = withDefaultSongProperties(this.settings.songProperties);
   }
   /**
    * Default saveSettings from docs
    */
   async saveSettings() {
     await this.saveData(this.settings);
+    // The index is keyed by the track id property, which may have been renamed
+    this.songIndex?.refreshKey();
   }
 }
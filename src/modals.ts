@@ -0,0 +1,233 @@
+import { App, FuzzySuggestModal, Modal, Setting } from "obsidian";
+
+/** Fuzzy searchable list of items, resolving to the chosen one. Use `pickFromList` instead of constructing this directly. */
+class ListSuggestModal<T> extends FuzzySuggestModal<T> {
+  private chosen = false;
+
+  constructor(
+    app: App,
+    private items: T[],
+    private toText: (item: T) => string,
+    private resolve: (item: T | undefined) => void
+  ) {
+    super(app);
+  }
+
+  getItems(): T[] {
+    return this.items;
+  }
+
+  getItemText(item: T): string {
+    return this.toText(item);
+  }
+
+  onChooseItem(item: T): void {
+    this.chosen = true;
+    this.resolve(item);
+  }
+
+  onClose(): void {
+    // onClose fires before onChooseItem, so wait a tick before treating this as a dismissal
+    setTimeout(() => {
+      if (!this.chosen) this.resolve(undefined);
+    });
+  }
+}
+
+/** Let the user pick one of `items`. Resolves to undefined if the modal is dismissed. */
+export const pickFromList = <T>(
+  app: App,
+  items: T[],
+  toText: (item: T) => string,
+  placeholder?: string
+) => {
+  return new Promise<T | undefined>((resolve) => {
+    const modal = new ListSuggestModal(app, items, toText, resolve);
+    if (placeholder) modal.setPlaceholder(placeholder);
+    modal.open();
+  });
+};
+
+/** Single line text prompt, resolving to the entered text. Use `promptForText` instead of constructing this directly. */
+class TextPromptModal extends Modal {
+  private submitted = false;
+
+  constructor(
+    app: App,
+    private title: string,
+    private placeholder: string,
+    private resolve: (value: string | undefined) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    let value = "";
+    const submit = () => {
+      this.submitted = true;
+      this.resolve(value.trim());
+      this.close();
+    };
+
+    new Setting(this.contentEl).addText((text) => {
+      text.setPlaceholder(this.placeholder).onChange((v) => (value = v));
+      text.inputEl.addClass("music-vault-wide-input");
+      text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+        if (e.key === "Enter") submit();
+      });
+    });
+    new Setting(this.contentEl).addButton((button) =>
+      button.setButtonText("OK").setCta().onClick(submit)
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.submitted) this.resolve(undefined);
+  }
+}
+
+/** Ask the user for a line of text. Resolves to undefined if the modal is dismissed. */
+export const promptForText = (app: App, title: string, placeholder = "") => {
+  return new Promise<string | undefined>((resolve) => {
+    new TextPromptModal(app, title, placeholder, resolve).open();
+  });
+};
+
+/**
+ * Open the system file picker, for a folder on desktop or multiple files elsewhere, and resolve to the picked files.
+ * Resolves to an empty list if nothing is picked.
+ */
+export const pickFiles = (accept: string, folder: boolean) => {
+  return new Promise<File[]>((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.multiple = true;
+    if (folder) input.webkitdirectory = true;
+    input.addEventListener("change", () => resolve(Array.from(input.files ?? [])));
+    input.addEventListener("cancel", () => resolve([]));
+    input.click();
+  });
+};
+
+/**
+ * Progress bar for long running bulk operations, with a Cancel button.
+ * Closing the modal also counts as cancelling; the operation checks `cancelled` between steps.
+ */
+export class ProgressModal extends Modal {
+  cancelled = false;
+  private finished = false;
+  private statusEl: HTMLElement;
+  private progressEl: HTMLProgressElement;
+
+  constructor(app: App, private title: string, private total: number) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    this.progressEl = this.contentEl.createEl("progress", { cls: "music-vault-progress" });
+    this.progressEl.max = Math.max(this.total, 1);
+    this.progressEl.value = 0;
+    this.statusEl = this.contentEl.createDiv();
+    new Setting(this.contentEl).addButton((button) =>
+      button.setButtonText("Cancel").onClick(() => this.close())
+    );
+  }
+
+  /** Update the bar and the status line underneath it */
+  setProgress(done: number, status: string) {
+    if (this.progressEl) this.progressEl.value = done;
+    this.statusEl?.setText(status);
+  }
+
+  /** Close without it counting as a cancel */
+  finish() {
+    this.finished = true;
+    this.close();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.finished) this.cancelled = true;
+  }
+}
+
+/** Read-only report: a title and a list of sections, each with its own list of lines */
+class ReportModal extends Modal {
+  constructor(
+    app: App,
+    private title: string,
+    private sections: { heading: string; lines: string[] }[]
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    const container = this.contentEl.createDiv({ cls: "music-vault-report" });
+    for (const section of this.sections) {
+      container.createEl("h4", { text: section.heading });
+      const list = container.createEl("ul");
+      for (const line of section.lines) list.createEl("li", { text: line });
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+/** Show a read-only report, e.g. the result of a dry run */
+export const showReport = (
+  app: App,
+  title: string,
+  sections: { heading: string; lines: string[] }[]
+) => {
+  new ReportModal(app, title, sections).open();
+};
+
+/** Yes/no question with a call to action button. Use `confirm` instead of constructing this directly. */
+class ConfirmModal extends Modal {
+  private confirmed = false;
+
+  constructor(
+    app: App,
+    private title: string,
+    private message: string,
+    private action: string,
+    private resolve: (confirmed: boolean) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    this.contentEl.createEl("p", { text: this.message });
+    new Setting(this.contentEl)
+      .addButton((button) => button.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((button) =>
+        button
+          .setButtonText(this.action)
+          .setCta()
+          .onClick(() => {
+            this.confirmed = true;
+            this.close();
+          })
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve(this.confirmed);
+  }
+}
+
+/** Ask the user to confirm `action`. Resolves to false if they cancel or dismiss the modal. */
+export const confirm = (app: App, title: string, message: string, action: string) => {
+  return new Promise<boolean>((resolve) => {
+    new ConfirmModal(app, title, message, action, resolve).open();
+  });
+};
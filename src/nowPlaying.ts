@@ -0,0 +1,183 @@
+import { Menu, Notice, Platform } from "obsidian";
+import ObsidianSpotifyPlugin from "main";
+import { CurrentlyPlaying, fetchCurrentlyPlaying, saveTracks } from "spotifyAPI";
+import { SpotifyRateLimitError } from "spotifyClient";
+import { getToken } from "tokenStorage";
+
+/** How often to ask Spotify what's playing, when all is well */
+const pollSeconds = 15;
+/** Longest wait between polls while requests keep failing */
+const maxBackoffSeconds = 5 * 60;
+
+/**
+ * Status bar item showing the current song (or episode), marked when it already has a note.
+ * Click to open/create the note, right click for more actions.
+ * Polling pauses while the window is hidden and backs off while requests fail.
+ */
+export class NowPlaying {
+  plugin: ObsidianSpotifyPlugin;
+  private el: HTMLElement | undefined;
+  private timer: number | undefined;
+  private failures = 0;
+  private current: CurrentlyPlaying | undefined;
+
+  constructor(plugin: ObsidianSpotifyPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Hook up visibility changes and start polling. Call once, when the workspace layout is ready. */
+  load() {
+    this.plugin.registerDomEvent(document, "visibilitychange", () => {
+      if (document.hidden) this.clearTimer();
+      else if (this.el) this.schedule(0);
+    });
+    this.plugin.register(() => this.stop());
+    this.start();
+  }
+
+  /** (Re)start with the current settings. Removes the item if it is disabled. The status bar doesn't exist on mobile. */
+  start() {
+    this.stop();
+    if (!this.plugin.settings.showNowPlaying || Platform.isMobile) return;
+
+    this.el = this.plugin.addStatusBarItem();
+    this.el.addClass("mod-clickable");
+    this.el.hide();
+    this.el.addEventListener("click", this.plugin.withErrorNotice(this.openNote));
+    this.el.addEventListener("contextmenu", (evt) => this.showMenu(evt));
+    this.schedule(0);
+  }
+
+  stop() {
+    this.clearTimer();
+    this.el?.remove();
+    this.el = undefined;
+    this.current = undefined;
+  }
+
+  /** Poll again soon, e.g. after skipping */
+  refresh() {
+    if (this.el && !document.hidden) this.schedule(1);
+  }
+
+  private clearTimer() {
+    if (this.timer !== undefined) window.clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private schedule(seconds: number) {
+    this.clearTimer();
+    this.timer = window.setTimeout(() => this.poll(), seconds * 1000);
+  }
+
+  private poll = async () => {
+    this.timer = undefined;
+    // Resumed by the visibilitychange listener
+    if (document.hidden || !this.el) return;
+
+    let next = pollSeconds;
+    try {
+      const token = await getToken();
+      this.current = token ? await fetchCurrentlyPlaying(token.access_token) : undefined;
+      this.failures = 0;
+      this.render();
+    } catch (e) {
+      this.failures++;
+      next =
+        e instanceof SpotifyRateLimitError
+          ? Math.max(e.retryAfter, pollSeconds)
+          : Math.min(pollSeconds * 2 ** this.failures, maxBackoffSeconds);
+      console.error(`Could not read the current song, trying again in ${next}s:`, e);
+    }
+    // stop() may have run while the request was in flight
+    if (this.el) this.schedule(next);
+  };
+
+  private render() {
+    if (!this.el) return;
+    const { song, episode } = this.current ?? {};
+    if (!song && !episode) {
+      this.el.hide();
+      return;
+    }
+
+    const hasNote = song ? this.plugin.songIndex.get(song.id) !== undefined : false;
+    const text = song
+      ? `♪ ${song.name} — ${(song.artists ?? []).map((a) => a.name).join(", ")}`
+      : `🎙 ${episode?.name} — ${episode?.show?.name ?? ""}`;
+    this.el.setText(`${text}${hasNote ? " 📝" : ""}`);
+    this.el.setAttr(
+      "aria-label",
+      `${hasNote ? "Open" : "Create"} ${song ? "song" : "episode"} note, right click for more`
+    );
+    this.el.show();
+  }
+
+  private openNote = async () => {
+    const token = await getToken();
+    const { song, episode } = this.current ?? {};
+    if (token === undefined || (!song && !episode)) return;
+
+    if (episode) {
+      await this.plugin.findOrCreateAndOpenEpisodeNote(episode);
+    } else if (song) {
+      const enrichedSong = await this.plugin.enrichSong(song, token.access_token);
+      await this.plugin.findOrCreateAndOpenSongNote(enrichedSong, false);
+    }
+    this.render();
+  };
+
+  private showMenu(evt: MouseEvent) {
+    const { song, episode } = this.current ?? {};
+    if (!song && !episode) return;
+    const menu = new Menu();
+
+    const activeEditor = this.plugin.app.workspace.activeEditor;
+    const editor = activeEditor?.editor;
+    if (editor) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Insert link")
+          .setIcon("link")
+          .onClick(
+            this.plugin.withErrorNotice(async () => {
+              let link = episode ? this.plugin.buildEpisodeLink(episode) : "";
+              if (song) {
+                const token = await getToken();
+                if (!token) return;
+                link = await this.plugin.formatSongLink(song, token.access_token, activeEditor?.file?.path ?? "");
+              }
+              editor.replaceSelection(link);
+            })
+          )
+      );
+    }
+    if (song) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Like")
+          .setIcon("heart")
+          .onClick(
+            this.plugin.withErrorNotice(async () => {
+              const token = await getToken();
+              if (!token) return;
+              await saveTracks(token.access_token, [song.id]);
+              new Notice(`💚 Added "${song.name}" to Liked Songs`);
+            })
+          )
+      );
+    }
+    menu.addItem((item) =>
+      item
+        .setTitle("Skip")
+        .setIcon("skip-forward")
+        .onClick(
+          this.plugin.withErrorNotice(async () => {
+            await this.plugin.playback.next();
+            this.refresh();
+          })
+        )
+    );
+    menu.showAtMouseEvent(evt);
+  }
+}
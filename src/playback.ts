@@ -0,0 +1,205 @@
+import { Notice } from "obsidian";
+import ObsidianSpotifyPlugin from "main";
+import {
+  Device,
+  addToQueue,
+  fetchAlbum,
+  fetchCurrentlyPlaying,
+  fetchDevices,
+  fetchPlaybackState,
+  fetchPlaylist,
+  pausePlayback,
+  seekPlayback,
+  skipToNext,
+  skipToPrevious,
+  startPlayback,
+  transferPlayback,
+} from "spotifyAPI";
+import { SpotifyNotFoundError } from "spotifyClient";
+import { getToken } from "tokenStorage";
+import { pickFromList } from "modals";
+import { songPropertyKey } from "songSchema";
+
+/** What the active note can be played as */
+interface NoteTarget {
+  type: "track" | "album" | "playlist";
+  id: string;
+}
+
+/**
+ * Spotify Connect playback commands: play/pause, skip, and playing or queueing the active song, album or playlist note.
+ * When Spotify has no active device, the user picks one and the command runs again on it.
+ */
+export class Playback {
+  plugin: ObsidianSpotifyPlugin;
+
+  constructor(plugin: ObsidianSpotifyPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Access token, or undefined after sending the user to settings to connect */
+  private async token() {
+    const token = await getToken();
+    if (token === undefined) {
+      new Notice("🎵 Connect Spotify in settings first");
+      this.plugin.openSettingsPage();
+      return undefined;
+    }
+    return token.access_token;
+  }
+
+  /**
+   * Run a player request on the active device. If there is none (Spotify answers 404), let the user pick a device
+   * and run it again there. Resolves to false if the user dismissed the picker.
+   */
+  private async onDevice(token: string, request: (deviceId?: string) => Promise<unknown>) {
+    try {
+      await request();
+      return true;
+    } catch (e) {
+      if (!(e instanceof SpotifyNotFoundError)) throw e;
+    }
+    const device = await this.pickDevice(token, "No active Spotify device, play on…");
+    if (!device) return false;
+    await request(device.id);
+    return true;
+  }
+
+  private async pickDevice(token: string, placeholder: string): Promise<Device | undefined> {
+    const devices = await fetchDevices(token);
+    if (!devices.length) {
+      new Notice("❌ No Spotify devices found, open Spotify on a device first");
+      return undefined;
+    }
+    return pickFromList(
+      this.plugin.app,
+      devices,
+      (d) => `${d.name} (${d.type})${d.is_active ? " · playing here" : ""}`,
+      placeholder
+    );
+  }
+
+  togglePlayback = async () => {
+    const token = await this.token();
+    if (!token) return;
+
+    const state = await fetchPlaybackState(token);
+    if (state?.is_playing) {
+      await pausePlayback(token);
+      return;
+    }
+    await this.onDevice(token, (deviceId) => startPlayback(token, {}, deviceId));
+  };
+
+  next = async () => {
+    const token = await this.token();
+    if (!token) return;
+    await this.onDevice(token, (deviceId) => skipToNext(token, deviceId));
+  };
+
+  previous = async () => {
+    const token = await this.token();
+    if (!token) return;
+    await this.onDevice(token, (deviceId) => skipToPrevious(token, deviceId));
+  };
+
+  /** Move playback to another Spotify Connect device, keeping it playing if it was */
+  chooseDevice = async () => {
+    const token = await this.token();
+    if (!token) return;
+
+    const device = await this.pickDevice(token, "Play on…");
+    if (!device) return;
+    const state = await fetchPlaybackState(token);
+    await transferPlayback(token, device.id, state?.is_playing ?? false);
+    new Notice(`🎵 Playing on ${device.name}`);
+  };
+
+  /** Seek to `seconds` into a track: in place if it is the current track, otherwise by starting it there */
+  seekTo = async (trackId: string, seconds: number) => {
+    const token = await this.token();
+    if (!token) return;
+
+    const positionMs = seconds * 1000;
+    const current = await fetchCurrentlyPlaying(token);
+    if (current?.song?.id === trackId) {
+      await seekPlayback(token, positionMs);
+      return;
+    }
+    const body = { uris: [`spotify:track:${trackId}`], position_ms: positionMs };
+    await this.onDevice(token, (deviceId) => startPlayback(token, body, deviceId));
+  };
+
+  /** Play the song of the active song note, or the album/playlist of an album/playlist note */
+  playActiveNote = async () => {
+    const target = this.activeNoteTarget();
+    if (!target) {
+      new Notice("❌ The active note isn't a song, album or playlist note");
+      return;
+    }
+    const token = await this.token();
+    if (!token) return;
+
+    const uri = `spotify:${target.type}:${target.id}`;
+    const body = target.type === "track" ? { uris: [uri] } : { context_uri: uri };
+    if (await this.onDevice(token, (deviceId) => startPlayback(token, body, deviceId))) {
+      new Notice(`🎵 Playing ${target.type === "track" ? "song" : target.type}`);
+    }
+  };
+
+  /** Add the song of the active song note, or every track of an album/playlist note, to the queue */
+  queueActiveNote = async () => {
+    const target = this.activeNoteTarget();
+    if (!target) {
+      new Notice("❌ The active note isn't a song, album or playlist note");
+      return;
+    }
+    const token = await this.token();
+    if (!token) return;
+
+    let trackIds = [target.id];
+    if (target.type === "album") {
+      trackIds = (await fetchAlbum(token, target.id))?.tracks.map((t) => t.id) ?? [];
+    } else if (target.type === "playlist") {
+      trackIds = (await fetchPlaylist(token, target.id))?.tracks.map((t) => t.song.id) ?? [];
+    }
+    if (!trackIds.length) {
+      new Notice(`❌ Could not fetch ${target.type} from Spotify`);
+      return;
+    }
+
+    // The queue only takes one track per request; the first one settles which device they all go to
+    let device: string | undefined;
+    const queued = await this.onDevice(token, async (deviceId) => {
+      device = deviceId;
+      await addToQueue(token, `spotify:track:${trackIds[0]}`, deviceId);
+    });
+    if (!queued) return;
+    // In order, so the queue matches the album/playlist
+    for (const id of trackIds.slice(1)) await addToQueue(token, `spotify:track:${id}`, device);
+
+    new Notice(trackIds.length === 1 ? "✅ Added song to queue" : `✅ Added ${trackIds.length} songs to queue`);
+  };
+
+  /** Read what to play from the active note's frontmatter: a track id, else a playlist id, else an album id */
+  private activeNoteTarget(): NoteTarget | undefined {
+    const file = this.plugin.app.workspace.getActiveFile();
+    if (!file) return undefined;
+    const fm = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!fm) return undefined;
+
+    const { songProperties } = this.plugin.settings;
+    const read = (key: string) => {
+      const value = fm[key];
+      return typeof value === "string" && value.trim() ? value.trim() : undefined;
+    };
+
+    const trackId = read(songPropertyKey(songProperties, "id"));
+    if (trackId) return { type: "track", id: trackId };
+    const playlistId = read("playlist_id");
+    if (playlistId) return { type: "playlist", id: playlistId };
+    const albumId = read("album_id") ?? read(songPropertyKey(songProperties, "albumId"));
+    if (albumId) return { type: "album", id: albumId };
+    return undefined;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Sections of a note body that the plugin generates and owns (tracklists etc.).
+ * They are wrapped in HTML comment markers, so everything outside them is left to the user.
+ */
+
+const startMarker = (name: string) => `<!-- music-vault:${name} -->`;
+const endMarker = (name: string) => `<!-- /music-vault:${name} -->`;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Read the text of a generated section, undefined if the note doesn't have it */
+export const readSection = (content: string, name: string) => {
+  const m = content.match(
+    new RegExp(`${escapeRegExp(startMarker(name))}\\r?\\n?([\\s\\S]*?)\\r?\\n?${escapeRegExp(endMarker(name))}`)
+  );
+  return m?.[1];
+};
+
+/** Replace a generated section with `text`, appending it to the end of the note when it isn't there yet */
+export const upsertSection = (content: string, name: string, text: string) => {
+  const block = `${startMarker(name)}\n${text}\n${endMarker(name)}`;
+  const pattern = new RegExp(
+    `${escapeRegExp(startMarker(name))}[\\s\\S]*?${escapeRegExp(endMarker(name))}`
+  );
+  if (pattern.test(content)) return content.replace(pattern, () => block);
+
+  const trimmed = content.replace(/\s+$/, "");
+  return `${trimmed}${trimmed ? "\n\n" : ""}${block}\n`;
+};
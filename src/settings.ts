@@ -2,15 +2,83 @@ import { PluginSettingTab, App, ButtonComponent, Notice, Setting } from "obsidia
 import ObsidianSpotifyPlugin from "main";
 import { getToken, clearToken } from "tokenStorage";
 import { SpotifyProfile, fetchProfile } from "spotifyAPI";
+import { describeSpotifyError } from "spotifyClient";
+import { renameFrontmatterKey } from "frontmatter";
+import { confirm } from "modals";
 import SpotifyUserSVG from "./spotify-user.svg";
+import { DEFAULT_SONG_LINK_TEMPLATE, SongLinkFormat, songLinkFormats, songPlaceholders } from "templates";
+import {
+  DEFAULT_SONG_PROPERTIES,
+  SongField,
+  SongPropertySetting,
+  defaultSongPropertyKey,
+  songPropertyKey,
+  songFields,
+} from "songSchema";
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface ObsidianSpotifyPluginSettings {
   songsFolder: string; // e.g. "Music/Songs"
+  artistsFolder: string; // e.g. "Music/Artists"
+  albumsFolder: string; // e.g. "Music/Albums"
+  playlistsFolder: string; // e.g. "Music/Playlists"
+  episodesFolder: string; // e.g. "Podcasts/Episodes"
+  exportsFolder: string; // e.g. "Music/Exports", for song library exports
+  createArtistNotes: boolean; // create/update artist notes and link them from song notes
+  showNowPlaying: boolean; // current song in the status bar (desktop only)
+  pasteSpotifyLinks: "off" | "link" | "note"; // what pasting a Spotify URL turns into
+  syncLikedSongsOnStartup: boolean;
+  flagUnlikedSongs: boolean; // mark song notes whose track is no longer liked
+  likedSongsCursor: string; // added_at of the newest like seen by the last sync, not shown in the UI
+  listeningLogEnabled: boolean;
+  listeningLogIntervalMinutes: number;
+  listeningLogTarget: "log-note" | "daily-note"; // one log note per day, or a section of the daily note
+  listeningLogFolder: string; // e.g. "Music/Listening log", for log notes
+  listeningLogHeading: string; // heading the section goes under in daily notes
+  dailyNotesFolder: string;
+  dailyNoteFormat: string; // moment.js format of daily note names
+  listeningLogCursor: number; // epoch ms of the newest play written, not shown in the UI
+  refreshCursor: string; // path of the last song note an interrupted "Refresh all song notes" got to, not shown in the UI
+  historyNoteThreshold: number; // streaming history import creates notes for tracks played this often, 0 = never
+  songProperties: Record<SongField, SongPropertySetting>; // frontmatter mapping for song notes
+  songLinkFormat: SongLinkFormat; // what "Insert song link" inserts
+  songLinkTemplate: string; // used when songLinkFormat is "template"
+  songFileNameTemplate: string; // e.g. "{{artist}} - {{title}}", relative to songsFolder
+  songBodyTemplateSource: "inline" | "file";
+  songBodyTemplate: string; // used when songBodyTemplateSource is "inline"
+  songBodyTemplateFile: string; // vault path, used when songBodyTemplateSource is "file"
 }
 
 export const DEFAULT_SETTINGS: ObsidianSpotifyPluginSettings = {
   songsFolder: "", // pick your default
+  artistsFolder: "",
+  albumsFolder: "",
+  playlistsFolder: "",
+  episodesFolder: "",
+  exportsFolder: "",
+  createArtistNotes: false,
+  showNowPlaying: false,
+  pasteSpotifyLinks: "link",
+  syncLikedSongsOnStartup: false,
+  flagUnlikedSongs: false,
+  likedSongsCursor: "",
+  listeningLogEnabled: false,
+  listeningLogIntervalMinutes: 15,
+  listeningLogTarget: "log-note",
+  listeningLogFolder: "",
+  listeningLogHeading: "## Listening log",
+  dailyNotesFolder: "",
+  dailyNoteFormat: "YYYY-MM-DD",
+  listeningLogCursor: 0,
+  refreshCursor: "",
+  historyNoteThreshold: 0,
+  songProperties: DEFAULT_SONG_PROPERTIES,
+  songLinkFormat: "markdown",
+  songLinkTemplate: DEFAULT_SONG_LINK_TEMPLATE,
+  songFileNameTemplate: "{{title}}",
+  songBodyTemplateSource: "inline",
+  songBodyTemplate: "",
+  songBodyTemplateFile: "",
 };
 
 export class SettingTab extends PluginSettingTab {
@@ -22,17 +90,17 @@ export class SettingTab extends PluginSettingTab {
     this.plugin = plugin;
   }
 
+  /** Fetch the profile once and show it. Never rejects, `display` doesn't wait for it. */
   async refreshProfile() {
-    // TODO: Add some kind of loading state for UX clarity
-    const token = await getToken();
-    if (token !== undefined && this.profile === undefined) {
-      const profile = await fetchProfile(token.access_token);
-      if (profile !== undefined) {
-        this.profile = profile;
-        this.display();
-      } else {
-        new Notice("❌ Could not show profile");
-      }
+    if (this.profile !== undefined) return;
+    try {
+      const token = await getToken();
+      if (token === undefined) return;
+      this.profile = await fetchProfile(token.access_token);
+      this.display();
+    } catch (e) {
+      console.error(e);
+      new Notice(`❌ Could not show profile. ${describeSpotifyError(e)}`);
     }
   }
 
@@ -81,7 +149,7 @@ export class SettingTab extends PluginSettingTab {
       new ButtonComponent(buttons)
         .setButtonText("Connect Spotify")
         .onClick(() => {
-          this.plugin.openSpotifyAuthModal(() => this.display());
+          this.plugin.connectSpotify(() => this.display());
         });
     }
 
@@ -111,6 +179,486 @@ export class SettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           })
       );
-      
+
+    // Artist notes folder setting
+    new Setting(stack)
+      .setName("Artist notes folder")
+      .setDesc('Folder path to create artist notes in (e.g. "Music/Artists"). Leave blank for vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder("Music/Artists")
+          .setValue(this.plugin.settings.artistsFolder ?? "")
+          .onChange(async (value) => {
+            this.plugin.settings.artistsFolder = value.replace(/^\/+|\/+$/g, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Album notes folder setting
+    new Setting(stack)
+      .setName("Album notes folder")
+      .setDesc('Folder path to create album notes in (e.g. "Music/Albums"). Leave blank for vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder("Music/Albums")
+          .setValue(this.plugin.settings.albumsFolder ?? "")
+          .onChange(async (value) => {
+            this.plugin.settings.albumsFolder = value.replace(/^\/+|\/+$/g, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Playlist notes folder setting
+    new Setting(stack)
+      .setName("Playlist notes folder")
+      .setDesc('Folder path to create playlist notes in (e.g. "Music/Playlists"). Leave blank for vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder("Music/Playlists")
+          .setValue(this.plugin.settings.playlistsFolder ?? "")
+          .onChange(async (value) => {
+            this.plugin.settings.playlistsFolder = value.replace(/^\/+|\/+$/g, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Episode notes folder setting
+    new Setting(stack)
+      .setName("Episode notes folder")
+      .setDesc('Folder path to create podcast episode notes in (e.g. "Podcasts/Episodes"). Leave blank for vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder("Podcasts/Episodes")
+          .setValue(this.plugin.settings.episodesFolder ?? "")
+          .onChange(async (value) => {
+            this.plugin.settings.episodesFolder = value.replace(/^\/+|\/+$/g, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Exports folder setting
+    new Setting(stack)
+      .setName("Exports folder")
+      .setDesc('Folder path to write song library exports (CSV, JSON, M3U, XSPF) to (e.g. "Music/Exports"). Leave blank for vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder("Music/Exports")
+          .setValue(this.plugin.settings.exportsFolder ?? "")
+          .onChange(async (value) => {
+            this.plugin.settings.exportsFolder = value.replace(/^\/+|\/+$/g, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(stack)
+      .setName("Link artist notes from song notes")
+      .setDesc("Create or update a note for each artist when a song note is created or refreshed, and link it from the song note.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.createArtistNotes)
+          .onChange(async (value) => {
+            this.plugin.settings.createArtistNotes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(stack)
+      .setName("Show current song in status bar")
+      .setDesc("Click it to open or create the song note, right click to insert a link, like or skip. Not available on mobile.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showNowPlaying)
+          .onChange(async (value) => {
+            this.plugin.settings.showNowPlaying = value;
+            await this.plugin.saveSettings();
+            this.plugin.nowPlaying.start();
+          })
+      );
+
+    this.displaySongLinks(stack);
+
+    new Setting(stack)
+      .setName("Pasted Spotify links")
+      .setDesc(
+        'What a pasted Spotify URL or URI (track, album, artist, playlist or episode) turns into. "Convert Spotify URLs in this note" uses the same format.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            off: "Keep the URL as pasted",
+            link: "Link titled with the name",
+            note: "Link to its note (created if needed)",
+          })
+          .setValue(this.plugin.settings.pasteSpotifyLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.pasteSpotifyLinks = value as "off" | "link" | "note";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.displayLikedSongs(stack);
+    this.displayListeningLog(stack);
+    new Setting(stack)
+      .setName("Streaming history: create notes from")
+      .setDesc("When importing a Spotify data export, create song notes for tracks played at least this many times. 0 only updates existing notes.")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.historyNoteThreshold))
+          .onChange(async (value) => {
+            const threshold = parseInt(value, 10);
+            this.plugin.settings.historyNoteThreshold = Number.isFinite(threshold) && threshold > 0 ? threshold : 0;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.displaySongTemplates(stack);
+    this.displaySongProperties(stack);
+  }
+
+  /** Liked Songs sync options */
+  displayLikedSongs(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Liked Songs")
+      .setDesc('Run "Sync liked songs" to create song notes for your likes, with a liked_at property.')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Sync on startup")
+      .setDesc("Sync new likes every time Obsidian starts.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncLikedSongsOnStartup)
+          .onChange(async (value) => {
+            this.plugin.settings.syncLikedSongsOnStartup = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Flag unliked songs")
+      .setDesc("Set unliked: true on song notes whose track you no longer like. This reads your whole library on every sync.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.flagUnlikedSongs)
+          .onChange(async (value) => {
+            this.plugin.settings.flagUnlikedSongs = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Start over")
+      .setDesc("Forget where the last sync stopped, so the next sync reads your whole library again.")
+      .addButton((button) =>
+        button.setButtonText("Reset").onClick(async () => {
+          this.plugin.settings.likedSongsCursor = "";
+          await this.plugin.saveSettings();
+          new Notice("Liked Songs sync reset");
+        })
+      );
+  }
+
+  /** Background listening log options */
+  displayListeningLog(containerEl: HTMLElement) {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl)
+      .setName("Listening log")
+      .setDesc("Keep a log of what you listen to while Obsidian is open. Spotify only remembers your last 50 plays, so longer breaks leave gaps.")
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Enable listening log")
+      .addToggle((toggle) =>
+        toggle.setValue(settings.listeningLogEnabled).onChange(async (value) => {
+          settings.listeningLogEnabled = value;
+          await this.plugin.saveSettings();
+          this.plugin.listeningLog.start();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Check every (minutes)")
+      .addText((text) =>
+        text
+          .setPlaceholder("15")
+          .setValue(String(settings.listeningLogIntervalMinutes))
+          .onChange(async (value) => {
+            const minutes = parseInt(value, 10);
+            if (!Number.isFinite(minutes) || minutes < 1) return;
+            settings.listeningLogIntervalMinutes = minutes;
+            await this.plugin.saveSettings();
+            this.plugin.listeningLog.start();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Write plays to")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ "log-note": "One log note per day", "daily-note": "The daily note" })
+          .setValue(settings.listeningLogTarget)
+          .onChange(async (value) => {
+            settings.listeningLogTarget = value as "log-note" | "daily-note";
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (settings.listeningLogTarget === "daily-note") {
+      new Setting(containerEl)
+        .setName("Daily notes folder")
+        .setDesc("Should match your daily notes settings.")
+        .addText((text) =>
+          text
+            .setPlaceholder("Daily")
+            .setValue(settings.dailyNotesFolder)
+            .onChange(async (value) => {
+              settings.dailyNotesFolder = value.replace(/^\/+|\/+$/g, "");
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Daily note date format")
+        .setDesc("Should match your daily notes settings.")
+        .addText((text) =>
+          text
+            .setPlaceholder("YYYY-MM-DD")
+            .setValue(settings.dailyNoteFormat)
+            .onChange(async (value) => {
+              settings.dailyNoteFormat = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Section heading")
+        .setDesc("Heading added above the log the first time a day's daily note gets a play.")
+        .addText((text) =>
+          text
+            .setPlaceholder("## Listening log")
+            .setValue(settings.listeningLogHeading)
+            .onChange(async (value) => {
+              settings.listeningLogHeading = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    } else {
+      new Setting(containerEl)
+        .setName("Listening log folder")
+        .setDesc('Folder path for the daily log notes (e.g. "Music/Listening log"). Leave blank for vault root.')
+        .addText((text) =>
+          text
+            .setPlaceholder("Music/Listening log")
+            .setValue(settings.listeningLogFolder)
+            .onChange(async (value) => {
+              settings.listeningLogFolder = value.replace(/^\/+|\/+$/g, "");
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+  }
+
+  /** What inserted song links look like */
+  displaySongLinks(containerEl: HTMLElement) {
+    const formats = Object.fromEntries(
+      Object.entries(songLinkFormats).map(([format, { label }]) => [format, label])
+    );
+
+    new Setting(containerEl)
+      .setName("Song link format")
+      .setDesc(
+        'What "Insert song link" and other song links insert. Formats linking the song note create it if needed. Each format also has its own command.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(formats)
+          .setValue(this.plugin.settings.songLinkFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.songLinkFormat = value as SongLinkFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Song link template")
+      .setDesc(
+        "Used by the custom template format. Takes the song note placeholders, plus {{note}} for the song note's link text (the note is created if needed)."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SONG_LINK_TEMPLATE)
+          .setValue(this.plugin.settings.songLinkTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.songLinkTemplate = value || DEFAULT_SONG_LINK_TEMPLATE;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /** File name and body templates for new song notes */
+  displaySongTemplates(containerEl: HTMLElement) {
+    const placeholders = Object.keys(songPlaceholders)
+      .map((p) => `{{${p}}}`)
+      .join(", ");
+
+    new Setting(containerEl)
+      .setName("New song notes")
+      .setDesc(`Templates for new song notes. Available placeholders: ${placeholders}`)
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("File name template")
+      .setDesc('Relative to the song notes folder. Use "/" for subfolders, e.g. "{{album}}/{{title}}".')
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.songFileNameTemplate)
+          .setValue(this.plugin.settings.songFileNameTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.songFileNameTemplate = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Body template source")
+      .setDesc("Write the body template here, or point at a template file in your vault.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ inline: "Inline template", file: "Template file" })
+          .setValue(this.plugin.settings.songBodyTemplateSource)
+          .onChange(async (value) => {
+            this.plugin.settings.songBodyTemplateSource = value as "inline" | "file";
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.songBodyTemplateSource === "file") {
+      new Setting(containerEl)
+        .setName("Body template file")
+        .setDesc("Vault path of the template file. Its frontmatter is kept and merged with the song properties.")
+        .addText((text) =>
+          text
+            .setPlaceholder("Templates/Song.md")
+            .setValue(this.plugin.settings.songBodyTemplateFile)
+            .onChange(async (value) => {
+              this.plugin.settings.songBodyTemplateFile = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    } else {
+      new Setting(containerEl)
+        .setName("Body template")
+        .setDesc("Written below the properties of every new song note.")
+        .addTextArea((text) =>
+          text
+            .setPlaceholder("## Thoughts\n\n## Where I heard it\n")
+            .setValue(this.plugin.settings.songBodyTemplate)
+            .onChange(async (value) => {
+              this.plugin.settings.songBodyTemplate = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+  }
+
+  /**
+   * Rename the property a song field is written to (an empty `key` means the default name).
+   * Song notes that have the old property get it renamed once the user confirms, otherwise the plugin would lose track of them.
+   * Resolves to false if the user cancels.
+   */
+  async renameSongProperty(field: SongField, key: string) {
+    const { settings } = this.plugin;
+    const oldKey = songPropertyKey(settings.songProperties, field);
+    const newKey = key || defaultSongPropertyKey(field, settings.songProperties[field].format);
+    const notes =
+      newKey === oldKey
+        ? []
+        : [...this.plugin.songNotesByTrackId().values()].filter(
+            (file) => this.app.metadataCache.getFileCache(file)?.frontmatter?.[oldKey] !== undefined
+          );
+
+    if (notes.length) {
+      const confirmed = await confirm(
+        this.app,
+        "Rename song property",
+        `${notes.length} song notes have a "${oldKey}" property. Rename it to "${newKey}" in all of them?`,
+        "Rename"
+      );
+      if (!confirmed) return false;
+    }
+
+    // The notes are gathered first, as saving re-indexes song notes by the new name
+    settings.songProperties[field].key = key;
+    await this.plugin.saveSettings();
+    for (const file of notes) {
+      await this.app.vault.process(file, (content) => renameFrontmatterKey(content, oldKey, newKey));
+    }
+    if (notes.length) new Notice(`✅ Renamed "${oldKey}" to "${newKey}" in ${notes.length} song notes`);
+    return true;
+  }
+
+  /** One row per song field: on/off, property name, and value format */
+  displaySongProperties(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Song note properties")
+      .setDesc("Choose which properties song notes get, what they are called, and how values are written. Refresh follows the same mapping.")
+      .setHeading();
+
+    for (const field of Object.keys(songFields) as SongField[]) {
+      const spec = songFields[field];
+      const current = this.plugin.settings.songProperties[field];
+      const defaultKey = defaultSongPropertyKey(field, current.format);
+      const setting = new Setting(containerEl)
+        .setName(spec.label)
+        .setDesc(
+          spec.required
+            ? `Always written, the plugin uses it to find songs. Default: ${defaultKey}`
+            : `Default: ${defaultKey}`
+        );
+
+      if (!spec.required) {
+        setting.addToggle((toggle) =>
+          toggle.setValue(current.enabled).onChange(async (value) => {
+            this.plugin.settings.songProperties[field].enabled = value;
+            await this.plugin.saveSettings();
+          })
+        );
+      }
+
+      // Renames are applied once the field loses focus, as existing notes may have to be rewritten
+      setting.addText((text) => {
+        text.setPlaceholder(defaultKey).setValue(current.key);
+        text.inputEl.addEventListener("change", async () => {
+          if (!(await this.renameSongProperty(field, text.getValue().trim()))) {
+            text.setValue(this.plugin.settings.songProperties[field].key);
+          }
+        });
+      });
+
+      if (Object.keys(spec.formats).length > 1) {
+        setting.addDropdown((dropdown) =>
+          dropdown
+            .addOptions(spec.formats)
+            .setValue(current.format)
+            .onChange(async (value) => {
+              const property = this.plugin.settings.songProperties[field];
+              // A property still named after the old format's default gets the new format's default name
+              if (!property.key.trim() || property.key.trim() === defaultSongPropertyKey(field, property.format)) {
+                if (!(await this.renameSongProperty(field, defaultSongPropertyKey(field, value)))) {
+                  dropdown.setValue(property.format);
+                  return;
+                }
+              }
+              property.format = value;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+      }
+    }
   }
 }
@@ -0,0 +1,282 @@
+import { syntaxTree } from "@codemirror/language";
+import { RangeSetBuilder } from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  ViewPlugin,
+  ViewUpdate,
+  WidgetType,
+} from "@codemirror/view";
+import {
+  MarkdownPostProcessorContext,
+  TFile,
+  editorInfoField,
+  editorLivePreviewField,
+} from "obsidian";
+import ObsidianSpotifyPlugin from "main";
+import { Song, fetchSongById, parseSpotifyId } from "spotifyAPI";
+import { SongField, formatDuration, songPropertyKey } from "songSchema";
+import { getToken } from "tokenStorage";
+
+/** Inline syntax: inline code starting with this, e.g. `music-vault: [[Song note]]` */
+const inlinePrefix = "music-vault:";
+const inlinePattern = /`music-vault:\s*([^`]+?)\s*`/g;
+
+/** What a card shows, from a song note's frontmatter or from Spotify */
+interface SongCardData {
+  title: string;
+  artists: string[];
+  album?: string;
+  duration?: string;
+  genres: string[];
+  cover?: string;
+  link?: string; // Spotify url
+  file?: TFile; // the song note, when there is one
+}
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.filter((v) => v !== null && v !== undefined).map(String);
+  return typeof value === "string" && value ? [value] : [];
+};
+
+const toText = (value: unknown) =>
+  typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+
+/** Live preview stand-in for inline `music-vault: …` code */
+class SongCardWidget extends WidgetType {
+  constructor(
+    private ref: string,
+    private sourcePath: string,
+    private renderCard: (el: HTMLElement) => void
+  ) {
+    super();
+  }
+
+  eq(other: SongCardWidget) {
+    return other.ref === this.ref && other.sourcePath === this.sourcePath;
+  }
+
+  toDOM() {
+    const el = createSpan();
+    this.renderCard(el);
+    return el;
+  }
+}
+
+/**
+ * Song cards: a `music-vault` code block (one song per line) and inline `music-vault: …` code, each taking a track id,
+ * Spotify URL/URI or a wikilink to a song note. Rendered in reading view and live preview.
+ * Cards read the song note's frontmatter when there is a note, and otherwise look the track up on Spotify (cached per session).
+ */
+export class SongCards {
+  plugin: ObsidianSpotifyPlugin;
+  private lookups = new Map<string, Promise<Song | undefined>>();
+
+  constructor(plugin: ObsidianSpotifyPlugin) {
+    this.plugin = plugin;
+  }
+
+  load() {
+    this.plugin.registerMarkdownCodeBlockProcessor("music-vault", (source, el, ctx) => {
+      const refs = source.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+      const list = el.createDiv({ cls: "music-vault-cards" });
+      for (const ref of refs) this.render(list.createDiv(), ref, ctx.sourcePath, false);
+    });
+    this.plugin.registerMarkdownPostProcessor((el, ctx) => this.renderInlineCode(el, ctx));
+    this.plugin.registerEditorExtension(this.livePreviewExtension());
+  }
+
+  /** Reading view: replace inline `music-vault: …` code with cards */
+  private renderInlineCode(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+    el.querySelectorAll("code").forEach((code) => {
+      if (code.parentElement?.tagName === "PRE") return;
+      const text = code.textContent ?? "";
+      if (!text.startsWith(inlinePrefix)) return;
+      const card = createSpan();
+      code.replaceWith(card);
+      this.render(card, text.slice(inlinePrefix.length).trim(), ctx.sourcePath, true);
+    });
+  }
+
+  /**
+   * Live preview: show inline cards, except where the cursor is so the syntax can still be edited.
+   * Matches only count when the syntax tree has them as inline code, so code blocks keep showing the syntax.
+   */
+  private livePreviewExtension() {
+    const build = (view: EditorView) => {
+      const builder = new RangeSetBuilder<Decoration>();
+      if (!view.state.field(editorLivePreviewField)) return builder.finish();
+
+      const tree = syntaxTree(view.state);
+      const isInlineCode = (pos: number) => {
+        const name = tree.resolveInner(pos, 1).type.name;
+        return name.includes("inline-code") && !name.includes("codeblock");
+      };
+
+      const sourcePath = view.state.field(editorInfoField).file?.path ?? "";
+      const selection = view.state.selection.main;
+      for (const { from, to } of view.visibleRanges) {
+        const text = view.state.sliceDoc(from, to);
+        for (const m of text.matchAll(inlinePattern)) {
+          const start = from + (m.index ?? 0);
+          const end = start + m[0].length;
+          if (selection.from <= end && selection.to >= start) continue;
+          if (!isInlineCode(start + 1)) continue;
+          const widget = new SongCardWidget(m[1], sourcePath, (el) => this.render(el, m[1], sourcePath, true));
+          builder.add(start, end, Decoration.replace({ widget }));
+        }
+      }
+      return builder.finish();
+    };
+
+    return ViewPlugin.fromClass(
+      class {
+        decorations: DecorationSet;
+
+        constructor(view: EditorView) {
+          this.decorations = build(view);
+        }
+
+        update(update: ViewUpdate) {
+          // The tree may still be catching up with the document, so rebuild when it does
+          const parsed = syntaxTree(update.startState) !== syntaxTree(update.state);
+          if (update.docChanged || update.viewportChanged || update.selectionSet || parsed) {
+            this.decorations = build(update.view);
+          }
+        }
+      },
+      { decorations: (v) => v.decorations }
+    );
+  }
+
+  /** Resolve `ref` and fill `el` with its card, showing a placeholder while the lookup runs */
+  private async render(el: HTMLElement, ref: string, sourcePath: string, inline: boolean) {
+    el.addClass(inline ? "music-vault-card-inline" : "music-vault-card");
+    el.setText("Loading song…");
+    try {
+      const data = await this.resolve(ref, sourcePath);
+      el.empty();
+      if (!data) {
+        el.addClass("music-vault-card-error");
+        el.setText(`Unknown song: ${ref}`);
+        return;
+      }
+      if (inline) this.fillInline(el, data, sourcePath);
+      else this.fillCard(el, data, sourcePath);
+    } catch (e) {
+      console.error(`Could not render song card for ${ref}:`, e);
+      el.addClass("music-vault-card-error");
+      el.setText(`Could not load song: ${ref}`);
+    }
+  }
+
+  private async resolve(ref: string, sourcePath: string): Promise<SongCardData | undefined> {
+    const { app } = this.plugin;
+
+    const wikilink = ref.match(/^!?\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/);
+    if (wikilink) {
+      const file = app.metadataCache.getFirstLinkpathDest(wikilink[1].trim(), sourcePath);
+      return file ? this.fromNote(file) : undefined;
+    }
+
+    const trackId = parseSpotifyId(ref, "track");
+    if (!trackId) return undefined;
+    const note = this.plugin.songIndex.get(trackId);
+    if (note) return this.fromNote(note);
+
+    const song = await this.lookup(trackId);
+    return song ? this.fromSong(song) : undefined;
+  }
+
+  /** Fetch a track (with genres) once per session, sharing the request between cards showing the same track */
+  private lookup(trackId: string) {
+    let pending = this.lookups.get(trackId);
+    if (!pending) {
+      pending = (async () => {
+        const token = await getToken();
+        if (token === undefined) {
+          // Not connected (yet), try again on the next render
+          this.lookups.delete(trackId);
+          return undefined;
+        }
+        const song = await fetchSongById(token.access_token, trackId);
+        // Rendering a card shouldn't create artist notes
+        return song ? this.plugin.enrichSong(song, token.access_token, undefined, false) : undefined;
+      })();
+      // Don't cache failures, the next render can try again
+      pending.catch(() => this.lookups.delete(trackId));
+      this.lookups.set(trackId, pending);
+    }
+    return pending;
+  }
+
+  private fromNote(file: TFile): SongCardData | undefined {
+    const fm = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!fm) return undefined;
+    const get = (field: SongField) => fm[songPropertyKey(this.plugin.settings.songProperties, field)];
+
+    const duration = get("duration");
+    return {
+      title: toText(get("name")) ?? file.basename,
+      artists: toList(get("artists")),
+      album: toText(get("album")),
+      duration: typeof duration === "number" ? formatDuration(duration) : toText(duration),
+      genres: toList(get("genres")),
+      cover: toText(get("cover")),
+      link: toText(get("link")),
+      file,
+    };
+  }
+
+  private fromSong(song: Song): SongCardData {
+    return {
+      title: song.name,
+      artists: (song.artists ?? []).map((a) => a.name),
+      album: song.album?.name,
+      duration: song.duration_ms !== undefined ? formatDuration(song.duration_ms) : undefined,
+      genres: song.genres ?? [],
+      cover: song.album?.image,
+      link: song.link,
+    };
+  }
+
+  /** Title linking to the song note if there is one, otherwise to Spotify */
+  private renderTitle(parent: HTMLElement, data: SongCardData, sourcePath: string) {
+    if (data.file) {
+      const file = data.file;
+      const a = parent.createEl("a", { cls: "music-vault-card-title internal-link", text: data.title });
+      a.addEventListener("click", (evt) => {
+        evt.preventDefault();
+        this.plugin.app.workspace.openLinkText(file.path, sourcePath);
+      });
+      return;
+    }
+    const a = parent.createEl("a", {
+      cls: "music-vault-card-title external-link",
+      text: data.title,
+      href: data.link ?? "",
+    });
+    a.setAttr("target", "_blank");
+  }
+
+  private fillCard(el: HTMLElement, data: SongCardData, sourcePath: string) {
+    if (data.cover) el.createEl("img", { cls: "music-vault-card-cover", attr: { src: data.cover, alt: "" } });
+    const info = el.createDiv({ cls: "music-vault-card-info" });
+    this.renderTitle(info, data, sourcePath);
+    if (data.artists.length) info.createDiv({ text: data.artists.join(", ") });
+    const details = [data.album, data.duration].filter(Boolean).join(" · ");
+    if (details) info.createDiv({ cls: "music-vault-card-details", text: details });
+    if (data.genres.length) {
+      const genres = info.createDiv({ cls: "music-vault-card-genres" });
+      for (const genre of data.genres) genres.createSpan({ cls: "music-vault-card-genre", text: genre });
+    }
+  }
+
+  private fillInline(el: HTMLElement, data: SongCardData, sourcePath: string) {
+    if (data.cover) el.createEl("img", { cls: "music-vault-card-cover", attr: { src: data.cover, alt: "" } });
+    this.renderTitle(el, data, sourcePath);
+    const details = [data.artists.join(", "), data.duration].filter(Boolean).join(" · ");
+    if (details) el.createSpan({ cls: "music-vault-card-details", text: ` ${details}` });
+  }
+}
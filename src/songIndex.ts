@@ -0,0 +1,122 @@
+import { Notice, TAbstractFile, TFile } from "obsidian";
+import ObsidianSpotifyPlugin from "main";
+import { songPropertyKey } from "songSchema";
+
+/**
+ * track_id -> song note index, built from Obsidian's metadata cache instead of reading files.
+ * The metadata cache is persisted by Obsidian between sessions, so (re)building this on startup is cheap,
+ * and vault/metadata events keep it current afterwards. Covers the whole vault, so notes moved out of the
+ * songs folder are still found.
+ */
+export class SongIndex {
+  plugin: ObsidianSpotifyPlugin;
+  private key = "";
+  private byTrackId = new Map<string, TFile>();
+  private trackIdByPath = new Map<string, string>();
+
+  constructor(plugin: ObsidianSpotifyPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Build the index and start listening for changes. Call once, when the workspace layout is ready. */
+  load() {
+    const { app } = this.plugin;
+    this.rebuild();
+
+    // Frontmatter is only known once the cache has parsed a file, which also covers newly created notes
+    this.plugin.registerEvent(app.metadataCache.on("changed", (file) => this.update(file)));
+    this.plugin.registerEvent(app.vault.on("delete", (file) => this.remove(file.path)));
+    this.plugin.registerEvent(app.vault.on("rename", (file, oldPath) => this.rename(file, oldPath)));
+    // The cache may still be filling in on startup, so build once more when it first settles
+    let settled = false;
+    this.plugin.registerEvent(
+      app.metadataCache.on("resolved", () => {
+        if (settled) return;
+        settled = true;
+        this.rebuild();
+      })
+    );
+  }
+
+  /** Rebuild from scratch, e.g. when the track id property has been renamed */
+  rebuild() {
+    this.key = songPropertyKey(this.plugin.settings.songProperties, "id");
+    this.byTrackId.clear();
+    this.trackIdByPath.clear();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) this.update(file);
+  }
+
+  /** Rebuild only if the track id property name changed since the last build */
+  refreshKey() {
+    if (songPropertyKey(this.plugin.settings.songProperties, "id") !== this.key) this.rebuild();
+  }
+
+  get(trackId: string) {
+    return this.byTrackId.get(trackId);
+  }
+
+  /** Track id of the song note at `path`, undefined if it isn't one */
+  trackIdAt(path: string) {
+    return this.trackIdByPath.get(path);
+  }
+
+  /** Record a note right away, before the metadata cache has caught up (e.g. just after creating it) */
+  set(trackId: string, file: TFile) {
+    this.remove(file.path);
+    this.trackIdByPath.set(file.path, trackId);
+    if (!this.byTrackId.has(trackId)) this.byTrackId.set(trackId, file);
+  }
+
+  /** A copy of the whole index, safe for callers to add to */
+  entries() {
+    return new Map(this.byTrackId);
+  }
+
+  /** Song notes that live outside the configured songs folder */
+  outsideSongsFolder() {
+    return [...this.byTrackId.values()].filter((file) => !this.inSongsFolder(file.path));
+  }
+
+  private inSongsFolder(path: string) {
+    const folder = this.plugin.normalizeFolder(this.plugin.settings.songsFolder);
+    return !folder || path.startsWith(`${folder}/`);
+  }
+
+  private update(file: TAbstractFile) {
+    if (!(file instanceof TFile) || file.extension !== "md") return;
+    const value = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[this.key];
+    const trackId = typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+
+    if (this.trackIdByPath.get(file.path) === (trackId || undefined)) return;
+    this.remove(file.path);
+    if (trackId) this.set(trackId, file);
+  }
+
+  private remove(path: string) {
+    const trackId = this.trackIdByPath.get(path);
+    if (trackId === undefined) return;
+    this.trackIdByPath.delete(path);
+    if (this.byTrackId.get(trackId)?.path !== path) return;
+
+    // Fall back to another note with the same id, if there is one
+    this.byTrackId.delete(trackId);
+    for (const [otherPath, otherId] of this.trackIdByPath) {
+      const other = this.plugin.app.vault.getAbstractFileByPath(otherPath);
+      if (otherId === trackId && other instanceof TFile) {
+        this.byTrackId.set(trackId, other);
+        break;
+      }
+    }
+  }
+
+  private rename(file: TAbstractFile, oldPath: string) {
+    const trackId = this.trackIdByPath.get(oldPath);
+    if (trackId === undefined || !(file instanceof TFile)) return;
+    this.remove(oldPath);
+    this.set(trackId, file);
+
+    if (this.inSongsFolder(oldPath) && !this.inSongsFolder(file.path)) {
+      new Notice(`🎵 Song note "${file.basename}" was moved outside the song notes folder`);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { FrontmatterEntry, yamlDq } from "frontmatter";
+import { Song } from "spotifyAPI";
+
+/** Every `Song` field that can be written into a song note's frontmatter */
+export type SongField =
+  | "name"
+  | "link"
+  | "id"
+  | "isrc"
+  | "duration"
+  | "explicit"
+  | "popularity"
+  | "trackNumber"
+  | "artists"
+  | "artistIds"
+  | "artistLinks"
+  | "artistNotes"
+  | "genres"
+  | "album"
+  | "albumId"
+  | "releaseDate"
+  | "cover";
+
+/** How a single song field is mapped onto a frontmatter property */
+export interface SongPropertySetting {
+  enabled: boolean;
+  key: string; // property name in the note
+  format: string; // one of the keys of the field's `formats`
+}
+
+interface SongFieldSpec {
+  label: string;
+  defaultKey: string;
+  /** Value formats the user can pick from, value -> label. The first one is the default. */
+  formats: Record<string, string>;
+  /** Default property names for formats that `defaultKey` would misdescribe, format -> name */
+  formatKeys?: Record<string, string>;
+  /** Required fields can be renamed but not turned off, the plugin relies on them to find notes */
+  required?: boolean;
+  /** Undefined means the property is not written for this song */
+  serialize: (song: Song, format: string) => string | undefined;
+}
+
+/** Serialize a value as a double quoted YAML string */
+export const yamlString = (s: unknown) => `"${yamlDq(s)}"`;
+
+/** Serialize a list of strings as a YAML flow sequence */
+export const yamlList = (items: string[]) =>
+  `[${items.map((i) => JSON.stringify(i)).join(", ")}]`;
+
+/** Format milliseconds as m:ss (or h:mm:ss for anything an hour or longer) */
+export const formatDuration = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+const artistNames = (song: Song) =>
+  (song.artists ?? []).map((a) => a.name).filter(Boolean);
+
+/** Field definitions, in the order properties are written to a new note */
+export const songFields: Record<SongField, SongFieldSpec> = {
+  name: {
+    label: "Title",
+    defaultKey: "Song Name",
+    formats: { text: "Text" },
+    serialize: (song) => yamlString(song.name),
+  },
+  link: {
+    label: "Spotify link",
+    defaultKey: "Song link",
+    formats: { url: "URL" },
+    required: true,
+    serialize: (song) => yamlString(song.link),
+  },
+  id: {
+    label: "Track id",
+    defaultKey: "track_id",
+    formats: { text: "Text" },
+    required: true,
+    serialize: (song) => yamlString(song.id),
+  },
+  isrc: {
+    label: "ISRC",
+    defaultKey: "isrc",
+    formats: { text: "Text" },
+    serialize: (song) => yamlString(song.isrc ?? ""),
+  },
+  duration: {
+    label: "Duration",
+    defaultKey: "duration_ms",
+    formats: { ms: "Milliseconds", mmss: "m:ss" },
+    formatKeys: { mmss: "duration" },
+    serialize: (song, format) => {
+      if (song.duration_ms === undefined) return '""';
+      return format === "mmss"
+        ? yamlString(formatDuration(song.duration_ms))
+        : `${song.duration_ms}`;
+    },
+  },
+  explicit: {
+    label: "Explicit",
+    defaultKey: "explicit",
+    formats: { boolean: "Checkbox" },
+    serialize: (song) => `${song.explicit ?? '""'}`,
+  },
+  popularity: {
+    label: "Popularity",
+    defaultKey: "popularity",
+    formats: { number: "Number" },
+    serialize: (song) => `${song.popularity ?? '""'}`,
+  },
+  trackNumber: {
+    label: "Track number",
+    defaultKey: "track_number",
+    formats: { number: "Number" },
+    serialize: (song) => `${song.track_number ?? '""'}`,
+  },
+  artists: {
+    label: "Artists",
+    defaultKey: "artists_all",
+    formats: { list: "Text list", wikilinks: "Wikilinks", text: "Comma separated text" },
+    serialize: (song, format) => {
+      const names = artistNames(song);
+      if (format === "wikilinks") return yamlList(names.map((n) => `[[${n}]]`));
+      if (format === "text") return yamlString(names.join(", "));
+      return yamlList(names);
+    },
+  },
+  artistIds: {
+    label: "Artist ids",
+    defaultKey: "artist_ids_all",
+    formats: { list: "Text list" },
+    serialize: (song) =>
+      yamlList((song.artists ?? []).map((a) => a.id).filter(Boolean)),
+  },
+  artistLinks: {
+    label: "Artist links",
+    defaultKey: "artist_links_all",
+    formats: { list: "Text list" },
+    serialize: (song) =>
+      yamlList(
+        (song.artists ?? []).map((a) => a.link).filter((x): x is string => !!x)
+      ),
+  },
+  artistNotes: {
+    label: "Artist notes",
+    defaultKey: "artist_notes",
+    formats: { list: "Wikilinks" },
+    serialize: (song) => {
+      const links = (song.artists ?? [])
+        .filter((a) => a.note)
+        .map((a) => (a.note === a.name ? `[[${a.note}]]` : `[[${a.note}|${a.name}]]`));
+      return links.length ? yamlList(links) : undefined;
+    },
+  },
+  genres: {
+    label: "Genres",
+    defaultKey: "genres",
+    formats: { list: "Text list", text: "Comma separated text" },
+    serialize: (song, format) => {
+      const genres = song.genres ?? [];
+      return format === "text" ? yamlString(genres.join(", ")) : yamlList(genres);
+    },
+  },
+  album: {
+    label: "Album",
+    defaultKey: "Album name",
+    formats: { text: "Text" },
+    serialize: (song) => yamlString(song.album?.name ?? ""),
+  },
+  albumId: {
+    label: "Album id",
+    defaultKey: "album_id",
+    formats: { text: "Text" },
+    serialize: (song) => yamlString(song.album?.id ?? ""),
+  },
+  releaseDate: {
+    label: "Release date",
+    defaultKey: "Release date",
+    formats: { full: "Full date", year: "Year only" },
+    serialize: (song, format) => {
+      const date = song.album?.release_date ?? "";
+      return yamlString(format === "year" ? date.slice(0, 4) : date);
+    },
+  },
+  cover: {
+    label: "Album artwork",
+    defaultKey: "cover",
+    formats: { url: "URL" },
+    serialize: (song) => yamlString(song.album?.image ?? ""),
+  },
+};
+
+/** Default mapping, which matches the properties the plugin has always written */
+export const DEFAULT_SONG_PROPERTIES = {} as Record<SongField, SongPropertySetting>;
+for (const [field, spec] of Object.entries(songFields)) {
+  DEFAULT_SONG_PROPERTIES[field as SongField] = {
+    enabled: true,
+    key: spec.defaultKey,
+    format: Object.keys(spec.formats)[0],
+  };
+}
+
+/** Fill in any fields missing from saved settings (e.g. fields added in a later version) */
+export const withDefaultSongProperties = (
+  saved: Partial<Record<SongField, Partial<SongPropertySetting>>> | undefined
+) => {
+  const result = {} as Record<SongField, SongPropertySetting>;
+  for (const field of Object.keys(songFields) as SongField[]) {
+    result[field] = { ...DEFAULT_SONG_PROPERTIES[field], ...saved?.[field] };
+  }
+  return result;
+};
+
+/** The default property name of a field in the given format */
+export const defaultSongPropertyKey = (field: SongField, format?: string) =>
+  (format !== undefined && songFields[field].formatKeys?.[format]) || songFields[field].defaultKey;
+
+/** The property name a field is currently mapped to, falling back to its default name */
+export const songPropertyKey = (
+  properties: Record<SongField, SongPropertySetting>,
+  field: SongField
+) => properties[field]?.key?.trim() || defaultSongPropertyKey(field, properties[field]?.format);
+
+/** Build the frontmatter properties the plugin owns for a song, following the configured mapping */
+export const buildSongProperties = (
+  song: Song,
+  properties: Record<SongField, SongPropertySetting>
+): FrontmatterEntry[] => {
+  const entries: FrontmatterEntry[] = [];
+  for (const field of Object.keys(songFields) as SongField[]) {
+    const spec = songFields[field];
+    const setting = properties[field];
+    if (!setting.enabled && !spec.required) continue;
+    const format = setting.format in spec.formats ? setting.format : Object.keys(spec.formats)[0];
+    const value = spec.serialize(song, format);
+    if (value !== undefined) entries.push([songPropertyKey(properties, field), value]);
+  }
+  return entries;
+};
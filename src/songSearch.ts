@@ -0,0 +1,98 @@
+import { App, Keymap, Notice, Platform, SuggestModal } from "obsidian";
+import { Song, searchTracks } from "spotifyAPI";
+import { describeSpotifyError } from "spotifyClient";
+
+/** Wait this long after the last keystroke before searching, so typing doesn't fire a request per character */
+const searchDelay = 300; // ms
+
+/** What to do with the song picked from search results */
+export interface SongSearchResult {
+  song: Song;
+  insertLink: boolean; // insert a link at the cursor instead of opening the song note
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Spotify track search as you type. Use `searchForSong` instead of constructing this directly. */
+class SongSearchModal extends SuggestModal<Song> {
+  private chosen = false;
+  private latestQuery = 0;
+  private results: Song[] = [];
+
+  constructor(
+    app: App,
+    private token: string,
+    private canInsertLink: boolean,
+    private resolve: (result: SongSearchResult | undefined) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Search Spotify for a song…");
+    this.emptyStateText = "No songs found";
+
+    const instructions = [{ command: "↵", purpose: "to create/open song note" }];
+    if (canInsertLink) {
+      instructions.push({ command: Platform.isMacOS ? "⌘ ↵" : "ctrl ↵", purpose: "to insert link" });
+      // Enter with a modifier isn't handled by the default keymap
+      this.scope.register(["Mod"], "Enter", (evt) => {
+        this.selectActiveSuggestion(evt);
+        return false;
+      });
+    }
+    this.setInstructions(instructions);
+  }
+
+  async getSuggestions(query: string): Promise<Song[]> {
+    const q = query.trim();
+    if (!q) return [];
+
+    // Only the query typed last gets searched; superseded ones keep showing the previous results
+    const current = ++this.latestQuery;
+    await sleep(searchDelay);
+    if (current !== this.latestQuery) return this.results;
+
+    try {
+      this.results = await searchTracks(this.token, q);
+    } catch (e) {
+      console.error(e);
+      new Notice(describeSpotifyError(e));
+      this.results = [];
+    }
+    return this.results;
+  }
+
+  renderSuggestion(song: Song, el: HTMLElement): void {
+    const year = song.album?.release_date?.slice(0, 4);
+    const details = [
+      (song.artists ?? []).map((a) => a.name).join(", "),
+      song.album?.name,
+      year,
+    ].filter(Boolean);
+
+    el.addClass("mod-complex");
+    const content = el.createDiv({ cls: "suggestion-content" });
+    content.createDiv({ cls: "suggestion-title", text: song.name });
+    content.createDiv({ cls: "suggestion-note", text: details.join(" · ") });
+  }
+
+  onChooseSuggestion(song: Song, evt: MouseEvent | KeyboardEvent): void {
+    this.chosen = true;
+    this.resolve({ song, insertLink: this.canInsertLink && Boolean(Keymap.isModEvent(evt)) });
+  }
+
+  onClose(): void {
+    // onClose fires before onChooseSuggestion, so wait a tick before treating this as a dismissal
+    setTimeout(() => {
+      if (!this.chosen) this.resolve(undefined);
+    });
+  }
+}
+
+/**
+ * Let the user search Spotify for a song. Resolves to the chosen song, or undefined if the modal is dismissed.
+ * With `canInsertLink`, choosing with Mod held asks for a link to be inserted instead.
+ */
+export const searchForSong = (app: App, token: string, canInsertLink: boolean) => {
+  return new Promise<SongSearchResult | undefined>((resolve) => {
+    new SongSearchModal(app, token, canInsertLink, resolve).open();
+  });
+};
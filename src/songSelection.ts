@@ -0,0 +1,187 @@
+import { FrontMatterCache, Notice, TFile, getAllTags, getLinkpath } from "obsidian";
+import ObsidianSpotifyPlugin from "main";
+import { pickFromList, promptForText } from "modals";
+import { findSpotifyUrls } from "spotifyAPI";
+
+/** Ways to pick a set of songs */
+export type SongSelectionSource = "all" | "folder" | "tag" | "filter" | "links";
+
+const sourceLabels: Record<SongSelectionSource, string> = {
+  all: "All song notes",
+  folder: "Song notes in a folder…",
+  tag: "Song notes with a tag…",
+  filter: "Song notes matching a property filter…",
+  links: "Songs linked from the active note",
+};
+
+/** A selected song. `file` is its song note, missing for Spotify links to songs without one. */
+export interface SelectedSong {
+  trackId: string;
+  file?: TFile;
+}
+
+/** Songs the user picked, in order and without duplicates, with a short description (e.g. "#jazz") for names and notices */
+export interface SongSelection {
+  songs: SelectedSong[];
+  description: string;
+}
+
+const comparisonPattern = /^\s*(.+?)\s*(>=|<=|!=|==|=|>|<)\s*(.*?)\s*$/;
+
+/** A frontmatter value as text: wikilinks are reduced to the linked note's name so `artists = Radiohead` works */
+const plainValue = (value: unknown) => {
+  const text = String(value).trim();
+  const link = text.match(/^\[\[([^\]|#]*)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/);
+  return link ? link[1].split("/").pop() ?? "" : text;
+};
+
+/**
+ * Parse a property filter like `rating >= 4` or `genres = jazz` into a frontmatter predicate. Undefined if it doesn't parse.
+ * Values compare as numbers when both sides are numbers, otherwise as case-insensitive text (so ISO dates work too).
+ * List properties match when any item does, and `!=` when none is equal. Missing properties only match `!=`.
+ */
+export const parsePropertyFilter = (filter: string) => {
+  const m = filter.match(comparisonPattern);
+  if (!m) return undefined;
+  const [, key, op, raw] = m;
+  const expected = raw.replace(/^(["'])(.*)\1$/, "$2");
+
+  const compare = (value: unknown) => {
+    const text = plainValue(value);
+    const a = Number(text);
+    const b = Number(expected);
+    if (text && expected && !isNaN(a) && !isNaN(b)) return a - b;
+    return text.toLowerCase().localeCompare(expected.toLowerCase());
+  };
+  const test = (value: unknown) => {
+    const diff = compare(value);
+    if (op === ">=") return diff >= 0;
+    if (op === "<=") return diff <= 0;
+    if (op === ">") return diff > 0;
+    if (op === "<") return diff < 0;
+    return diff === 0;
+  };
+
+  return (frontmatter: FrontMatterCache | undefined) => {
+    const value = frontmatter?.[key.replace(/^(["'])(.*)\1$/, "$2")];
+    const values: unknown[] = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+    if (op === "!=") return !values.some((v) => compare(v) === 0);
+    return values.some(test);
+  };
+};
+
+/** Every song note, ordered by path */
+const songNotes = (plugin: ObsidianSpotifyPlugin) => {
+  return [...plugin.songNotesByTrackId().entries()]
+    .map(([trackId, file]) => ({ trackId, file }))
+    .sort((a, b) => a.file.path.localeCompare(b.file.path));
+};
+
+/** Songs linked from `file` in reading order: links to song notes and Spotify track URLs alike */
+const linkedSongs = async (plugin: ObsidianSpotifyPlugin, file: TFile) => {
+  const { metadataCache, vault } = plugin.app;
+  const cache = metadataCache.getFileCache(file);
+  const found: (SelectedSong & { offset: number })[] = [];
+
+  for (const link of [...(cache?.links ?? []), ...(cache?.embeds ?? [])]) {
+    const target = metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path);
+    const trackId = target ? plugin.songIndex.trackIdAt(target.path) : undefined;
+    if (target && trackId) found.push({ trackId, file: target, offset: link.position.start.offset });
+  }
+  for (const match of findSpotifyUrls(await vault.cachedRead(file))) {
+    if (match.type !== "track") continue;
+    found.push({ trackId: match.id, file: plugin.songIndex.get(match.id), offset: match.index });
+  }
+  return found.sort((a, b) => a.offset - b.offset).map(({ trackId, file }) => ({ trackId, file }));
+};
+
+const withoutDuplicates = (songs: SelectedSong[]) => {
+  const seen = new Set<string>();
+  return songs.filter(({ trackId }) => !seen.has(trackId) && seen.add(trackId));
+};
+
+/**
+ * Let the user pick songs in one of the `sources` ways, asking for the folder, tag or filter as needed.
+ * Resolves to undefined if a modal is dismissed or the input is invalid (after telling the user why).
+ */
+export const chooseSongs = async (
+  plugin: ObsidianSpotifyPlugin,
+  sources: SongSelectionSource[],
+  placeholder: string
+): Promise<SongSelection | undefined> => {
+  const { app } = plugin;
+  const activeFile = app.workspace.getActiveFile();
+  const available = sources.filter((s) => s !== "links" || activeFile);
+  const source = await pickFromList(app, available, (s) => sourceLabels[s], placeholder);
+  if (!source) return undefined;
+
+  const notes = songNotes(plugin);
+
+  if (source === "all") return { songs: notes, description: "all song notes" };
+
+  if (source === "folder") {
+    const folders = new Set<string>();
+    for (const { file } of notes) {
+      for (let folder = file.parent; folder && !folder.isRoot(); folder = folder.parent) folders.add(folder.path);
+    }
+    const folder = await pickFromList(app, [...folders].sort(), (f) => f, "Choose a folder");
+    if (folder === undefined) return undefined;
+    return {
+      songs: notes.filter(({ file }) => file.path.startsWith(`${folder}/`)),
+      description: `folder "${folder}"`,
+    };
+  }
+
+  if (source === "tag") {
+    // Nested tags count for their parents too, like in Obsidian's tag search
+    const tagsOf = (file: TFile) => {
+      const cache = app.metadataCache.getFileCache(file);
+      return new Set((cache ? getAllTags(cache) ?? [] : []).map((t) => t.toLowerCase()));
+    };
+    const counts = new Map<string, number>();
+    for (const { file } of notes) {
+      for (const tag of tagsOf(file)) {
+        const parts = tag.split("/");
+        for (let i = 1; i <= parts.length; i++) {
+          const parent = parts.slice(0, i).join("/");
+          counts.set(parent, (counts.get(parent) ?? 0) + 1);
+        }
+      }
+    }
+    if (!counts.size) {
+      new Notice("❌ No song notes have tags");
+      return undefined;
+    }
+    const tag = await pickFromList(
+      app,
+      [...counts.keys()].sort(),
+      (t) => `${t} (${counts.get(t)})`,
+      "Choose a tag"
+    );
+    if (!tag) return undefined;
+    return {
+      songs: notes.filter(({ file }) => [...tagsOf(file)].some((t) => t === tag || t.startsWith(`${tag}/`))),
+      description: tag,
+    };
+  }
+
+  if (source === "filter") {
+    const filter = await promptForText(app, "Filter song notes by property", "rating >= 4");
+    if (!filter) return undefined;
+    const matches = parsePropertyFilter(filter);
+    if (!matches) {
+      new Notice('❌ Use a filter like "rating >= 4" or "genres = jazz"');
+      return undefined;
+    }
+    return {
+      songs: notes.filter(({ file }) => matches(app.metadataCache.getFileCache(file)?.frontmatter)),
+      description: filter,
+    };
+  }
+
+  if (!activeFile) return undefined;
+  return {
+    songs: withoutDuplicates(await linkedSongs(plugin, activeFile)),
+    description: `links in "${activeFile.basename}"`,
+  };
+};
@@ -1,9 +1,21 @@
-import { createHash } from "crypto";
-import { RequestUrlParam, requestUrl } from "obsidian";
+import { RequestUrlParam, RequestUrlResponse } from "obsidian";
+import { SpotifyError, spotifyGet, spotifyRequest, spotifySend } from "spotifyClient";
 
 export const authEndpoint = "https://accounts.spotify.com/authorize";
 export const clientId = "6fac5b281afe437b94080bc41b71c5a7";
-export const scopes = ["user-read-currently-playing"];
+export const scopes = [
+  "user-read-currently-playing",
+  "playlist-read-private",
+  "playlist-read-collaborative",
+  "user-library-read",
+  "user-library-modify",
+  "user-read-recently-played",
+  "user-read-playback-state",
+  "user-modify-playback-state",
+  "user-read-playback-position",
+  "playlist-modify-private",
+  "playlist-modify-public",
+];
 export const redirectUri = "obsidian://music-vault-callback";
 
 export interface TokenResponse {
@@ -14,7 +26,7 @@ export interface TokenResponse {
   refresh_token: string;
 }
 
-// PKCE Flow functions
+// PKCE Flow functions, on Web Crypto so they also work on mobile
 const generateRandomString = (length: number) => {
   const possible =
     "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
@@ -25,25 +37,30 @@ const generateRandomString = (length: number) => {
 const sha256 = (plain: string) => {
   const encoder = new TextEncoder();
   const data = encoder.encode(plain);
-  return createHash("SHA256").update(data).digest();
+  return crypto.subtle.digest("SHA-256", data);
 };
 
-const base64encode = (input: Buffer) => {
+const base64encode = (input: ArrayBuffer) => {
   return btoa(String.fromCharCode(...new Uint8Array(input)))
     .replace(/=/g, "")
     .replace(/\+/g, "-")
     .replace(/\//g, "_");
 };
 
-const generateCodeChallenge = () => {
+const generateCodeChallenge = async () => {
   const codeVerifier = generateRandomString(64);
-  const hashed = sha256(codeVerifier);
+  const hashed = await sha256(codeVerifier);
   const codeChallenge = base64encode(hashed);
   return { verifier: codeVerifier, challenge: codeChallenge };
 };
 
-export const buildAuthUrlAndVerifier = () => {
-  const { verifier, challenge } = generateCodeChallenge();
+/**
+ * Build the url to send the user to for authorization.
+ * `verifier` is needed to exchange the returned code for a token, and `state` must come back unchanged with the redirect.
+ */
+export const buildAuthUrlAndVerifier = async () => {
+  const { verifier, challenge } = await generateCodeChallenge();
+  const state = generateRandomString(32);
   const authUrl = new URL(authEndpoint);
   const params = {
     response_type: "code",
@@ -52,14 +69,55 @@ export const buildAuthUrlAndVerifier = () => {
     code_challenge_method: "S256",
     code_challenge: challenge,
     redirect_uri: redirectUri,
+    state,
   };
   authUrl.search = new URLSearchParams(params).toString();
-  return [authUrl.toString(), verifier];
+  return { url: authUrl.toString(), verifier, state };
+};
+
+/** Kinds of Spotify object that can be referenced by a URL or URI */
+export type SpotifyItemType = "track" | "album" | "artist" | "playlist" | "episode";
+
+/**
+ * Pull the id of a `type` object out of a Spotify URL (open.spotify.com/track/abc?si=...),
+ * a URI (spotify:track:abc), or a bare id. Undefined if `input` is none of those.
+ */
+export const parseSpotifyId = (input: string, type: SpotifyItemType): string | undefined => {
+  const value = input.trim();
+  const url = value.match(new RegExp(`spotify\\.com/(?:[a-z-]+/)*${type}/([a-zA-Z0-9]+)`));
+  if (url) return url[1];
+  const uri = value.match(new RegExp(`^spotify:${type}:([a-zA-Z0-9]+)$`));
+  if (uri) return uri[1];
+  return /^[a-zA-Z0-9]{22}$/.test(value) ? value : undefined;
 };
 
-/* mimic https://developer.mozilla.org/en-US/docs/Web/API/Response/ok */
-const ok = (status: number) => {
-  return status >= 200 && status <= 299;
+/** A Spotify URL or URI found in some text */
+export interface SpotifyUrlMatch {
+  type: SpotifyItemType;
+  id: string;
+  text: string;               // the URL/URI as written
+  index: number;              // where it starts in the text
+}
+
+// open.spotify.com URLs (including intl-xx paths and query strings) and spotify: URIs, but not bare ids
+const spotifyUrlPattern =
+  /https?:\/\/open\.spotify\.com\/(?:intl-[a-zA-Z-]+\/)?(track|album|artist|playlist|episode)\/([a-zA-Z0-9]+)(?:\?[^\s)\]>]*)?|spotify:(track|album|artist|playlist|episode):([a-zA-Z0-9]+)/g;
+
+/** Every Spotify URL and URI in `text`, in order */
+export const findSpotifyUrls = (text: string): SpotifyUrlMatch[] => {
+  return [...text.matchAll(spotifyUrlPattern)].map((m) => ({
+    type: (m[1] ?? m[3]) as SpotifyItemType,
+    id: m[2] ?? m[4],
+    text: m[0],
+    index: m.index ?? 0,
+  }));
+};
+
+/** The Spotify URL or URI `text` consists of, ignoring surrounding whitespace. Undefined for anything else. */
+export const parseSpotifyUrl = (text: string): SpotifyUrlMatch | undefined => {
+  const trimmed = text.trim();
+  const [match] = findSpotifyUrls(trimmed);
+  return match && match.index === 0 && match.text === trimmed ? match : undefined;
 };
 
 export const fetchToken = async (
@@ -82,12 +140,14 @@ export const fetchToken = async (
     }).toString(),
   };
 
-  const res = await requestUrl(params);
-
-  if (ok(res.status)) {
+  try {
+    // No 401 recovery here, this is where tokens come from
+    const res = await spotifyRequest(params, false);
     return res.json;
+  } catch (e) {
+    console.error("Error fetching token:", e);
+    return undefined;
   }
-  return undefined;
 };
 
 export const refreshToken = async (
@@ -105,12 +165,18 @@ export const refreshToken = async (
       client_id: clientId,
     }).toString(),
   };
-  const res = await requestUrl(params);
-
-  if (ok(res.status)) {
+  try {
+    const res = await spotifyRequest(params, false);
     return res.json;
+  } catch (e) {
+    // Only a rejected refresh token means reconnecting. Outages, rate limits and network errors are thrown,
+    // so callers can keep using the current token while it lasts.
+    const rejected =
+      e instanceof SpotifyError && (e.status === 401 || (e.status === 400 && e.reason === "invalid_grant"));
+    if (!rejected) throw e;
+    console.error("Error refreshing token:", e);
+    return undefined;
   }
-  return undefined;
 };
 
 /** Return type for a song fetched from Spotify */
@@ -123,16 +189,25 @@ export type Song = {
   duration_ms?: number;
   explicit?: boolean;
   popularity?: number;
+  track_number?: number;
+  disc_number?: number;
 
   artists?: {
     id: string;               // artist id
     name: string;
     link?: string;
+    note?: string;            // link text of the artist's note in the vault, when there is one
   }[];
 
   album?: {
+    id?: string;              // album id
     name: string;
     release_date?: string;
+    album_type?: string;      // album, single or compilation
+    label?: string;           // only present on full album objects
+    total_tracks?: number;
+    image?: string;           // largest artwork url
+    link?: string;
   };
 
   genres?: string[];          // Combined deduplicated genres from all artists
@@ -165,11 +240,70 @@ export const fetchAudioFeatures = async (
   return af;
 };*/
 
-/**
- * Fetch the current playing song from spotify. Undefined if nothing playing or an error occurred.
- * `token` is expected to be a valid, non-expired, access token.
- */
-const parseSongFromTrack = (item: any): Song | undefined => {
+// The parts of Spotify's response objects that are read below. Responses aren't validated, so everything is optional.
+interface SpotifyImageObject {
+  url?: string;
+}
+
+interface SpotifyArtistObject {
+  id?: string;
+  name?: string;
+  external_urls?: { spotify?: string };
+  genres?: string[];          // full artist objects only
+  followers?: { total?: number };
+  popularity?: number;
+  images?: SpotifyImageObject[];
+}
+
+interface SpotifyAlbumObject {
+  id?: string;
+  name?: string;
+  release_date?: string;
+  album_type?: string;
+  label?: string;
+  total_tracks?: number;
+  images?: SpotifyImageObject[];
+  external_urls?: { spotify?: string };
+}
+
+interface SpotifyTrackObject {
+  id?: string;
+  name?: string;
+  uri?: string;
+  external_urls?: { spotify?: string };
+  external_ids?: { isrc?: string };
+  duration_ms?: number;
+  explicit?: boolean;
+  popularity?: number;
+  track_number?: number;
+  disc_number?: number;
+  artists?: SpotifyArtistObject[];
+  album?: SpotifyAlbumObject; // missing on simplified (album) tracks
+}
+
+interface SpotifyEpisodeObject {
+  id?: string;
+  name?: string;
+  uri?: string;
+  external_urls?: { spotify?: string };
+  description?: string;
+  release_date?: string;
+  duration_ms?: number;
+  explicit?: boolean;
+  images?: SpotifyImageObject[];
+  resume_point?: { resume_position_ms?: number; fully_played?: boolean };
+  show?: { id?: string; name?: string; publisher?: string; external_urls?: { spotify?: string } };
+}
+
+interface SpotifyDeviceObject {
+  id?: string | null;         // null for devices that can't be controlled through the API
+  name?: string;
+  type?: string;
+  is_active?: boolean;
+}
+
+/** Turn a Spotify track object (full or simplified) into a `Song` */
+const parseSongFromTrack = (item: SpotifyTrackObject | null | undefined): Song | undefined => {
   if (!item) return undefined;
   return {
     id: item.id ?? "",
@@ -179,63 +313,485 @@ const parseSongFromTrack = (item: any): Song | undefined => {
     duration_ms: item.duration_ms,
     explicit: item.explicit,
     popularity: item.popularity,
-    artists: (item.artists ?? []).map((a: any) => ({
+    artists: (item.artists ?? []).map((a) => ({
       id: a.id ?? "",
       name: a.name ?? "",
       link: a.external_urls?.spotify,
     })),
+    track_number: item.track_number,
+    disc_number: item.disc_number,
     album: item.album
-      ? { name: item.album.name, release_date: item.album.release_date }
+      ? {
+          id: item.album.id,
+          name: item.album.name ?? "",
+          release_date: item.album.release_date,
+          album_type: item.album.album_type,
+          label: item.album.label,
+          total_tracks: item.album.total_tracks,
+          image: item.album.images?.[0]?.url,
+          link: item.album.external_urls?.spotify,
+        }
+      : undefined,
+  };
+};
+
+/** Return type for a podcast episode fetched from Spotify */
+export type Episode = {
+  id: string;                 // episode id
+  name: string;
+  link: string;
+  description?: string;
+  release_date?: string;
+  duration_ms?: number;
+  explicit?: boolean;
+  image?: string;             // largest artwork url
+  resume_position_ms?: number; // where the user stopped listening, needs the user-read-playback-position scope
+  fully_played?: boolean;
+
+  show?: {
+    id: string;               // show id
+    name: string;
+    publisher?: string;
+    link?: string;
+  };
+};
+
+/** Turn a Spotify episode object into an `Episode` */
+const parseEpisode = (item: SpotifyEpisodeObject | null | undefined): Episode | undefined => {
+  if (!item) return undefined;
+  const show = item.show;
+  return {
+    id: item.id ?? "",
+    name: item.name ?? "",
+    link: item.external_urls?.spotify ?? item.uri ?? "",
+    description: item.description,
+    release_date: item.release_date,
+    duration_ms: item.duration_ms,
+    explicit: item.explicit,
+    image: item.images?.[0]?.url,
+    resume_position_ms: item.resume_point?.resume_position_ms,
+    fully_played: item.resume_point?.fully_played,
+    show: show
+      ? {
+          id: show.id ?? "",
+          name: show.name ?? "",
+          publisher: show.publisher,
+          link: show.external_urls?.spotify,
+        }
       : undefined,
   };
 };
 
+/** The song or episode that is playing (exactly one of them is set), and how far into it playback is */
+export type CurrentlyPlaying = {
+  song?: Song;
+  episode?: Episode;
+  progress_ms: number;
+};
+
+/**
+ * Fetch the current playing song or episode and position. Undefined if nothing is playing.
+ * Throws a `SpotifyError` if the request fails.
+ */
+export const fetchCurrentlyPlaying = async (
+  token: string
+): Promise<CurrentlyPlaying | undefined> => {
+  // Without additional_types, a playing episode comes back without its item
+  const res = await spotifyGet(
+    token,
+    "https://api.spotify.com/v1/me/player/currently-playing?additional_types=episode"
+  );
+
+  // 204 No Content means nothing is playing
+  if (res.status === 204 || !res.text) return undefined;
+  try {
+    const obj = res.json;
+    if (!obj?.is_playing) return undefined;
+    const item = obj.item;
+    const progress_ms = obj.progress_ms ?? 0;
+    if (item?.type === "episode") {
+      const episode = parseEpisode(item);
+      return episode ? { episode, progress_ms } : undefined;
+    }
+    if (item?.type !== "track") return undefined;
+    const song = parseSongFromTrack(item);
+    return song ? { song, progress_ms } : undefined;
+  } catch (e: unknown) {
+    console.error("Failed to parse response json in fetchCurrentlyPlaying: ", e);
+    return undefined;
+  }
+};
+
+/**
+ * Fetch the current playing song. Undefined if nothing (or an episode) is playing.
+ * Throws a `SpotifyError` if the request fails.
+ */
 export const fetchCurrentSong = async (
   token: string
 ): Promise<Song | undefined> => {
-  const params: RequestUrlParam = {
-    url: "https://api.spotify.com/v1/me/player/currently-playing",
-    headers: { Authorization: `Bearer ${token}` },
-  };
-  const res = await requestUrl(params);
+  return (await fetchCurrentlyPlaying(token))?.song;
+};
+
+/**
+ * Fetch multiple podcast episodes from Spotify.
+ * Batches up to 50 episode IDs per request (Spotify API limit).
+ * Episodes Spotify doesn't know about are missing from the result.
+ * @returns Map of episodeId -> Episode
+ */
+export const fetchEpisodes = async (
+  token: string,
+  episodeIds: string[]
+): Promise<Map<string, Episode>> => {
+  const result = new Map<string, Episode>();
+  const uniqueIds = [...new Set(episodeIds.filter(Boolean))];
+
+  const batchSize = 50;
+  for (let i = 0; i < uniqueIds.length; i += batchSize) {
+    const batch = uniqueIds.slice(i, i + batchSize);
+    const res = await spotifyGet(token, `https://api.spotify.com/v1/episodes?ids=${batch.join(",")}`);
+    // Episodes come back in the order requested, with null for unknown ids
+    const episodes: (SpotifyEpisodeObject | null)[] = res.json?.episodes ?? [];
+    episodes.forEach((item, j) => {
+      const episode = item ? parseEpisode(item) : undefined;
+      if (episode) result.set(batch[j], episode);
+    });
+  }
+
+  return result;
+};
+
+export const fetchSongById = async (
+  token: string,
+  trackId: string
+): Promise<Song | undefined> => {
+  const res = await spotifyGet(token, `https://api.spotify.com/v1/tracks/${trackId}`);
+  try {
+    return parseSongFromTrack(res.json);
+  } catch (e: unknown) {
+    console.error("Failed to parse response json in fetchSongById: ", e);
+    return undefined;
+  }
+};
+
+/**
+ * Fetch multiple tracks from Spotify.
+ * Batches up to 50 track IDs per request (Spotify API limit).
+ * Tracks Spotify doesn't know about are missing from the result.
+ * @returns Map of trackId -> Song
+ */
+export const fetchSongsByIds = async (
+  token: string,
+  trackIds: string[]
+): Promise<Map<string, Song>> => {
+  const result = new Map<string, Song>();
+  const uniqueIds = [...new Set(trackIds.filter(Boolean))];
+
+  const batchSize = 50;
+  for (let i = 0; i < uniqueIds.length; i += batchSize) {
+    const batch = uniqueIds.slice(i, i + batchSize);
+    const res = await spotifyGet(token, `https://api.spotify.com/v1/tracks?ids=${batch.join(",")}`);
+    // Tracks come back in the order requested, with null for unknown ids
+    const tracks: (SpotifyTrackObject | null)[] = res.json?.tracks ?? [];
+    tracks.forEach((track, j) => {
+      const song = track ? parseSongFromTrack(track) : undefined;
+      if (song) result.set(batch[j], song);
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Search Spotify's catalog for tracks matching `query` (same syntax as the Spotify search box, e.g. `artist:` filters).
+ * Throws a `SpotifyError` if the request fails.
+ */
+export const searchTracks = async (
+  token: string,
+  query: string,
+  limit = 20
+): Promise<Song[]> => {
+  const params = new URLSearchParams({ q: query, type: "track", limit: String(limit) });
+  const res = await spotifyGet(token, `https://api.spotify.com/v1/search?${params.toString()}`);
+  const items: SpotifyTrackObject[] = res.json?.tracks?.items ?? [];
+  return items
+    .map((item) => parseSongFromTrack(item))
+    .filter((song): song is Song => song !== undefined);
+};
+
+/** Return type for an album fetched from Spotify, including its full tracklist */
+export type Album = {
+  id: string;
+  name: string;
+  link?: string;
+  album_type?: string;
+  label?: string;
+  total_tracks?: number;
+  release_date?: string;
+  image?: string;             // largest artwork url
+  artists: { id: string; name: string; link?: string }[];
+  tracks: Song[];             // simplified tracks: no album, isrc or popularity
+};
+
+/**
+ * Fetch an album and its full tracklist (paging through the album tracks endpoint).
+ * Throws a `SpotifyError` if a request fails.
+ */
+export const fetchAlbum = async (
+  token: string,
+  albumId: string
+): Promise<Album | undefined> => {
+  const res = await spotifyGet(token, `https://api.spotify.com/v1/albums/${albumId}`);
+
+  // Only parsing is caught, request errors are left to the caller
+  let album: Album;
+  try {
+    const item = res.json;
+    album = {
+      id: item.id ?? albumId,
+      name: item.name ?? "",
+      link: item.external_urls?.spotify,
+      album_type: item.album_type,
+      label: item.label,
+      total_tracks: item.total_tracks,
+      release_date: item.release_date,
+      image: item.images?.[0]?.url,
+      artists: (item.artists ?? []).map((a: SpotifyArtistObject) => ({
+        id: a.id ?? "",
+        name: a.name ?? "",
+        link: a.external_urls?.spotify,
+      })),
+      tracks: [],
+    };
+  } catch (e: unknown) {
+    console.error("Failed to parse response json in fetchAlbum: ", e);
+    return undefined;
+  }
 
-  if (ok(res.status)) {
+  // Page through the tracks, 50 at a time (Spotify API limit)
+  let url: string | null = `https://api.spotify.com/v1/albums/${albumId}/tracks?limit=50`;
+  while (url) {
+    const page: RequestUrlResponse = await spotifyGet(token, url);
     try {
-      const obj = res.json;
-      if (!obj?.is_playing) return undefined;
-      const item = obj.item;
-      if (!item || item.type !== "track") return undefined;
-      return parseSongFromTrack(item);
+      for (const track of page.json?.items ?? []) {
+        const song = parseSongFromTrack(track);
+        if (song) album.tracks.push(song);
+      }
+      url = page.json?.next ?? null;
     } catch (e: unknown) {
-      console.error("Failed to parse response json in fetchCurrentSong: ", e);
+      console.error("Failed to parse response json in fetchAlbum: ", e);
       return undefined;
     }
   }
-  return undefined;
+  return album;
 };
 
-export const fetchSongById = async (
+/** A playlist summary, as listed by the current user's playlists endpoint */
+export type PlaylistSummary = {
+  id: string;
+  name: string;
+  owner?: string;
+  owner_id?: string;
+  collaborative?: boolean;
+  total_tracks?: number;
+};
+
+/** A playlist entry: the track plus who added it and when */
+export type PlaylistTrack = {
+  song: Song;
+  added_at?: string;          // ISO timestamp
+  added_by?: string;          // Spotify user id
+};
+
+/** Return type for a playlist fetched from Spotify, including all of its tracks */
+export type Playlist = {
+  id: string;
+  name: string;
+  description?: string;
+  owner?: string;
+  link?: string;
+  image?: string;
+  snapshot_id?: string;
+  tracks: PlaylistTrack[];    // in playlist order, episodes and unavailable tracks skipped
+};
+
+/** Fetch every playlist the current user owns or follows */
+export const fetchUserPlaylists = async (
+  token: string
+): Promise<PlaylistSummary[]> => {
+  const result: PlaylistSummary[] = [];
+  let url: string | null = "https://api.spotify.com/v1/me/playlists?limit=50";
+  while (url) {
+    const res: RequestUrlResponse = await spotifyGet(token, url);
+    for (const item of res.json?.items ?? []) {
+      if (!item?.id) continue;
+      result.push({
+        id: item.id,
+        name: item.name ?? "",
+        owner: item.owner?.display_name ?? item.owner?.id,
+        owner_id: item.owner?.id,
+        collaborative: item.collaborative === true,
+        total_tracks: item.tracks?.total,
+      });
+    }
+    url = res.json?.next ?? null;
+  }
+  return result;
+};
+
+/**
+ * Fetch a playlist and all of its tracks (paging through the playlist items endpoint).
+ * Throws a `SpotifyError` if a request fails.
+ */
+export const fetchPlaylist = async (
   token: string,
-  trackId: string
-): Promise<Song | undefined> => {
-  const params: RequestUrlParam = {
-    url: `https://api.spotify.com/v1/tracks/${trackId}`,
-    headers: { Authorization: `Bearer ${token}` },
-  };
-  const res = await requestUrl(params);
+  playlistId: string
+): Promise<Playlist | undefined> => {
+  const res = await spotifyGet(
+    token,
+    `https://api.spotify.com/v1/playlists/${playlistId}?fields=id,name,description,owner,external_urls,images,snapshot_id`
+  );
+
+  // Only parsing is caught, request errors are left to the caller
+  let playlist: Playlist;
+  try {
+    const item = res.json;
+    playlist = {
+      id: item.id ?? playlistId,
+      name: item.name ?? "",
+      description: item.description,
+      owner: item.owner?.display_name ?? item.owner?.id,
+      link: item.external_urls?.spotify,
+      image: item.images?.[0]?.url,
+      snapshot_id: item.snapshot_id,
+      tracks: [],
+    };
+  } catch (e: unknown) {
+    console.error("Failed to parse response json in fetchPlaylist: ", e);
+    return undefined;
+  }
 
-  if (ok(res.status)) {
+  // Page through the items, 100 at a time (Spotify API limit)
+  let url: string | null = `https://api.spotify.com/v1/playlists/${playlistId}/tracks?limit=100`;
+  while (url) {
+    const page: RequestUrlResponse = await spotifyGet(token, url);
     try {
-      return parseSongFromTrack(res.json);
+      for (const entry of page.json?.items ?? []) {
+        if (entry?.track?.type !== "track" || !entry.track.id) continue;
+        const song = parseSongFromTrack(entry.track);
+        if (!song) continue;
+        playlist.tracks.push({
+          song,
+          added_at: entry.added_at ?? undefined,
+          added_by: entry.added_by?.id,
+        });
+      }
+      url = page.json?.next ?? null;
     } catch (e: unknown) {
-      console.error("Failed to parse response json in fetchSongById: ", e);
+      console.error("Failed to parse response json in fetchPlaylist: ", e);
       return undefined;
     }
   }
-  return undefined;
+  return playlist;
+};
+
+/** Create an (initially empty, private) playlist for the current user and return its id. Throws a `SpotifyError` if the request fails. */
+export const createPlaylist = async (token: string, name: string, description = "") => {
+  const res = await spotifySend(token, "POST", "https://api.spotify.com/v1/me/playlists", {
+    name,
+    description,
+    public: false,
+  });
+  const id: string | undefined = res.json?.id;
+  if (!id) throw new SpotifyError("Spotify did not return the new playlist", res.status);
+  return id;
+};
+
+/** Replace every track of a playlist with `trackIds`, in order. Throws a `SpotifyError` if a request fails. */
+export const replacePlaylistTracks = async (token: string, playlistId: string, trackIds: string[]) => {
+  const url = `https://api.spotify.com/v1/playlists/${playlistId}/tracks`;
+  const uris = trackIds.map((id) => `spotify:track:${id}`);
+  // Spotify takes up to 100 tracks per request: the first replaces the playlist's tracks, the others append
+  await spotifySend(token, "PUT", url, { uris: uris.slice(0, 100) });
+  for (let i = 100; i < uris.length; i += 100) {
+    await spotifySend(token, "POST", url, { uris: uris.slice(i, i + 100) });
+  }
+};
+
+/** A track from the user's Liked Songs, with when it was liked */
+export type SavedTrack = {
+  song: Song;
+  added_at: string;           // ISO timestamp
+};
+
+/**
+ * Fetch the user's Liked Songs, newest first, 50 per page.
+ * When `since` (an ISO timestamp) is given, paging stops at the first like that isn't newer than it.
+ * Throws a `SpotifyError` if a request fails.
+ */
+export const fetchSavedTracks = async (
+  token: string,
+  since?: string
+): Promise<SavedTrack[]> => {
+  const result: SavedTrack[] = [];
+  let url: string | null = "https://api.spotify.com/v1/me/tracks?limit=50";
+  while (url) {
+    const res: RequestUrlResponse = await spotifyGet(token, url);
+
+    for (const item of res.json?.items ?? []) {
+      const addedAt: string = item?.added_at ?? "";
+      if (since && addedAt && addedAt <= since) return result;
+      const song = parseSongFromTrack(item?.track);
+      if (song?.id) result.push({ song, added_at: addedAt });
+    }
+    url = res.json?.next ?? null;
+  }
+  return result;
+};
+
+/** Add tracks to the user's Liked Songs. Throws a `SpotifyError` if the request fails. */
+export const saveTracks = async (token: string, trackIds: string[]) => {
+  // Spotify takes up to 50 ids per request
+  for (let i = 0; i < trackIds.length; i += 50) {
+    await spotifySend(token, "PUT", "https://api.spotify.com/v1/me/tracks", { ids: trackIds.slice(i, i + 50) });
+  }
+};
+
+/** A single play from the user's listening history */
+export type Play = {
+  song: Song;
+  played_at: string;          // ISO timestamp
+};
+
+/**
+ * Fetch up to 50 plays after `after` (epoch ms), oldest first.
+ * Spotify only keeps the most recent plays, so anything older than that is gone.
+ * Throws a `SpotifyError` if the request fails.
+ */
+export const fetchRecentlyPlayed = async (
+  token: string,
+  after?: number
+): Promise<Play[] | undefined> => {
+  const url = new URL("https://api.spotify.com/v1/me/player/recently-played");
+  url.searchParams.set("limit", "50");
+  if (after) url.searchParams.set("after", String(after));
+
+  const res = await spotifyGet(token, url.toString());
+
+  try {
+    const plays: Play[] = [];
+    for (const item of res.json?.items ?? []) {
+      const song = parseSongFromTrack(item?.track);
+      if (song?.id && item.played_at) plays.push({ song, played_at: item.played_at });
+    }
+    return plays.sort((a, b) => a.played_at.localeCompare(b.played_at));
+  } catch (e: unknown) {
+    console.error("Failed to parse response json in fetchRecentlyPlayed: ", e);
+    return undefined;
+  }
 };
 
 export interface SpotifyProfile {
+  id: string;
   display_name: string;
   external_urls: Record<string, string>;
   images: [{ height: number; width: number; url: string }];
@@ -246,35 +802,46 @@ export interface SpotifyProfile {
 /**
  * Fetch a user's profile corresponding with accessToken from spotify.
  * @param accessToken is expected to be a valid, non-expired, access token
- * @returns Promise to a profile or undefined if an error occurred
+ * @returns Promise to a profile. Throws a `SpotifyError` if the request fails.
  */
 export const fetchProfile = async (
   accessToken: string
 ): Promise<SpotifyProfile | undefined> => {
-  const params = {
-    url: "https://api.spotify.com/v1/me",
-    headers: {
-      Authorization: "Bearer " + accessToken,
-    },
-  };
-  const res = await requestUrl(params);
+  const res = await spotifyGet(accessToken, "https://api.spotify.com/v1/me");
+  return res.json;
+};
 
-  if (ok(res.status)) {
-    return res.json;
-  }
-  return undefined;
+/** Return type for an artist fetched from Spotify */
+export type Artist = {
+  id: string;
+  name: string;
+  link?: string;
+  genres: string[];
+  followers?: number;
+  popularity?: number;
+  image?: string;             // largest image url
 };
 
+const parseArtist = (item: SpotifyArtistObject): Artist => ({
+  id: item.id ?? "",
+  name: item.name ?? "",
+  link: item.external_urls?.spotify,
+  genres: Array.isArray(item.genres) ? item.genres : [],
+  followers: item.followers?.total,
+  popularity: item.popularity,
+  image: item.images?.[0]?.url,
+});
+
 /**
- * Fetch genres for multiple artists from Spotify.
+ * Fetch multiple artists from Spotify.
  * Batches up to 50 artist IDs per request (Spotify API limit).
- * @returns Map of artistId -> genres[]
+ * @returns Map of artistId -> Artist
  */
-export const fetchArtistGenres = async (
+export const fetchArtists = async (
   token: string,
   artistIds: string[]
-): Promise<Map<string, string[]>> => {
-  const result = new Map<string, string[]>();
+): Promise<Map<string, Artist>> => {
+  const result = new Map<string, Artist>();
   if (!artistIds.length) return result;
 
   // Deduplicate and filter empty IDs
@@ -284,24 +851,110 @@ export const fetchArtistGenres = async (
   const batchSize = 50;
   for (let i = 0; i < uniqueIds.length; i += batchSize) {
     const batch = uniqueIds.slice(i, i + batchSize);
-    const params: RequestUrlParam = {
-      url: `https://api.spotify.com/v1/artists?ids=${batch.join(",")}`,
-      headers: { Authorization: `Bearer ${token}` },
-    };
-
-    try {
-      const res = await requestUrl(params);
-      if (ok(res.status) && res.json?.artists) {
-        for (const artist of res.json.artists) {
-          if (artist?.id && Array.isArray(artist.genres)) {
-            result.set(artist.id, artist.genres);
-          }
-        }
-      }
-    } catch (e) {
-      console.error("Error fetching artist genres:", e);
+    const res = await spotifyGet(token, `https://api.spotify.com/v1/artists?ids=${batch.join(",")}`);
+    for (const artist of res.json?.artists ?? []) {
+      if (artist?.id) result.set(artist.id, parseArtist(artist));
     }
   }
 
   return result;
 };
+
+/** A Spotify Connect device, e.g. a phone, computer or speaker with Spotify open */
+export type Device = {
+  id: string;
+  name: string;
+  type: string;               // Computer, Smartphone, Speaker, ...
+  is_active: boolean;
+};
+
+/** What the player is doing right now */
+export type PlaybackState = {
+  is_playing: boolean;
+  progress_ms?: number;
+  device?: Device;
+};
+
+const parseDevice = (item: SpotifyDeviceObject): Device => ({
+  id: item.id ?? "",
+  name: item.name ?? "",
+  type: item.type ?? "",
+  is_active: Boolean(item.is_active),
+});
+
+/**
+ * Fetch the player state. Undefined if there is no active device.
+ * Throws a `SpotifyError` if the request fails.
+ */
+export const fetchPlaybackState = async (
+  token: string
+): Promise<PlaybackState | undefined> => {
+  const res = await spotifyGet(token, "https://api.spotify.com/v1/me/player");
+  // 204 No Content means no device is active
+  if (res.status === 204 || !res.text) return undefined;
+  const obj = res.json;
+  return {
+    is_playing: Boolean(obj?.is_playing),
+    progress_ms: obj?.progress_ms ?? undefined,
+    device: obj?.device ? parseDevice(obj.device) : undefined,
+  };
+};
+
+/** Fetch the devices Spotify can play on. Throws a `SpotifyError` if the request fails. */
+export const fetchDevices = async (token: string): Promise<Device[]> => {
+  const res = await spotifyGet(token, "https://api.spotify.com/v1/me/player/devices");
+  const items: SpotifyDeviceObject[] = res.json?.devices ?? [];
+  return items.map(parseDevice).filter((d) => d.id);
+};
+
+/** Query string selecting a device for player endpoints, empty for the active device */
+const deviceQuery = (deviceId?: string) =>
+  deviceId ? `?device_id=${encodeURIComponent(deviceId)}` : "";
+
+/** Move playback to `deviceId`, and start playing there if `play` */
+export const transferPlayback = async (token: string, deviceId: string, play = false) => {
+  await spotifySend(token, "PUT", "https://api.spotify.com/v1/me/player", {
+    device_ids: [deviceId],
+    play,
+  });
+};
+
+/**
+ * Start or resume playback. `uris` plays those tracks, `context_uri` an album or playlist, and neither resumes.
+ * `position_ms` starts the first track that far in.
+ * Without `deviceId` the active device is used; Spotify answers 404 (a `SpotifyNotFoundError`) when there is none.
+ */
+export const startPlayback = async (
+  token: string,
+  target: { uris?: string[]; context_uri?: string; position_ms?: number } = {},
+  deviceId?: string
+) => {
+  const body = target.uris || target.context_uri ? target : undefined;
+  await spotifySend(token, "PUT", `https://api.spotify.com/v1/me/player/play${deviceQuery(deviceId)}`, body);
+};
+
+export const pausePlayback = async (token: string, deviceId?: string) => {
+  await spotifySend(token, "PUT", `https://api.spotify.com/v1/me/player/pause${deviceQuery(deviceId)}`);
+};
+
+/** Seek to `positionMs` in the current track */
+export const seekPlayback = async (token: string, positionMs: number, deviceId?: string) => {
+  const params = new URLSearchParams({ position_ms: String(Math.max(0, Math.round(positionMs))) });
+  if (deviceId) params.set("device_id", deviceId);
+  await spotifySend(token, "PUT", `https://api.spotify.com/v1/me/player/seek?${params.toString()}`);
+};
+
+export const skipToNext = async (token: string, deviceId?: string) => {
+  await spotifySend(token, "POST", `https://api.spotify.com/v1/me/player/next${deviceQuery(deviceId)}`);
+};
+
+export const skipToPrevious = async (token: string, deviceId?: string) => {
+  await spotifySend(token, "POST", `https://api.spotify.com/v1/me/player/previous${deviceQuery(deviceId)}`);
+};
+
+/** Add a track (or episode) uri to the end of the queue */
+export const addToQueue = async (token: string, uri: string, deviceId?: string) => {
+  const params = new URLSearchParams({ uri });
+  if (deviceId) params.set("device_id", deviceId);
+  await spotifySend(token, "POST", `https://api.spotify.com/v1/me/player/queue?${params.toString()}`);
+};
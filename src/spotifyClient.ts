@@ -0,0 +1,232 @@
+import { RequestUrlParam, RequestUrlResponse, requestUrl } from "obsidian";
+
+/** Base class for every error a Spotify request can end in */
+export class SpotifyError extends Error {
+  status?: number;
+  reason?: string; // Spotify's error reason (e.g. "PREMIUM_REQUIRED"), or the OAuth error code (e.g. "invalid_grant")
+
+  constructor(message: string, status?: number, reason?: string) {
+    super(message);
+    this.name = "SpotifyError";
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+/** The token is missing, revoked, or lacks a scope; the user needs to reconnect */
+export class SpotifyAuthError extends SpotifyError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "SpotifyAuthError";
+  }
+}
+
+/**
+ * Spotify understood the request but won't do it, e.g. player commands without Premium (`reason` "PREMIUM_REQUIRED"),
+ * a player restriction, or changing a playlist the user doesn't own. Reconnecting doesn't help.
+ */
+export class SpotifyForbiddenError extends SpotifyError {
+  constructor(message: string, reason?: string) {
+    super(message, 403, reason);
+    this.name = "SpotifyForbiddenError";
+  }
+}
+
+/** Still rate limited after retrying, or Spotify asked us to wait longer than we're willing to */
+export class SpotifyRateLimitError extends SpotifyError {
+  retryAfter: number; // seconds
+
+  constructor(retryAfter: number) {
+    super(`Rate limited by Spotify, retry after ${retryAfter}s`, 429);
+    this.name = "SpotifyRateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** The requested track, album, playlist etc. doesn't exist (or isn't available) */
+export class SpotifyNotFoundError extends SpotifyError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = "SpotifyNotFoundError";
+  }
+}
+
+/** The request never got a response, e.g. when offline */
+export class SpotifyNetworkError extends SpotifyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpotifyNetworkError";
+  }
+}
+
+/** User facing message for an error thrown by a Spotify request (or anything else) */
+export const describeSpotifyError = (e: unknown) => {
+  if (e instanceof SpotifyAuthError) return "🎵 Spotify needs to be reconnected in settings";
+  if (e instanceof SpotifyRateLimitError) {
+    return `⏳ Spotify is rate limiting requests, try again in ${Math.ceil(e.retryAfter / 60)} min`;
+  }
+  if (e instanceof SpotifyForbiddenError) {
+    if (e.reason === "PREMIUM_REQUIRED") return "🎵 Controlling playback needs Spotify Premium";
+    return `❌ Spotify refused the request: ${e.message}`;
+  }
+  if (e instanceof SpotifyNotFoundError) return "❌ Not found on Spotify";
+  if (e instanceof SpotifyNetworkError) return "❌ Could not reach Spotify, check your connection";
+  if (e instanceof SpotifyError) return `❌ Spotify request failed (${e.status ?? "unknown error"})`;
+  return "❌ Something went wrong, see the console for details";
+};
+
+/** Errors that will fail every following request too, so bulk operations should stop rather than count a failure */
+export const isFatalSpotifyError = (e: unknown) => {
+  return (
+    e instanceof SpotifyAuthError ||
+    e instanceof SpotifyRateLimitError ||
+    e instanceof SpotifyNetworkError
+  );
+};
+
+const maxConcurrent = 4;
+const maxRetries = 3;
+const maxRetryAfter = 30; // seconds; anything longer is surfaced to the user instead of waited out
+
+let inFlight = 0;
+const waiting: (() => void)[] = [];
+
+/** Wait for one of the `maxConcurrent` request slots */
+const acquire = async () => {
+  if (inFlight < maxConcurrent) {
+    inFlight++;
+    return;
+  }
+  await new Promise<void>((resolve) => waiting.push(resolve));
+};
+
+/** Hand the slot to the next waiting request, or free it */
+const release = () => {
+  const next = waiting.shift();
+  if (next) next();
+  else inFlight--;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const header = (res: RequestUrlResponse, name: string) => {
+  const key = Object.keys(res.headers ?? {}).find((k) => k.toLowerCase() === name);
+  return key ? res.headers[key] : undefined;
+};
+
+/**
+ * Message and reason of an error response: Web API `{ error: { status, message, reason? } }`,
+ * or accounts (OAuth) `{ error: "invalid_grant", error_description }`. Empty if the body is neither.
+ */
+const errorBody = (res: RequestUrlResponse): { message?: string; reason?: string } => {
+  try {
+    const body = JSON.parse(res.text);
+    const error: unknown = body?.error;
+    if (typeof error === "string") {
+      const description: unknown = body.error_description;
+      return { message: typeof description === "string" ? description : undefined, reason: error };
+    }
+    if (typeof error !== "object" || error === null) return {};
+    const { message, reason } = error as { message?: unknown; reason?: unknown };
+    return {
+      message: typeof message === "string" ? message : undefined,
+      reason: typeof reason === "string" ? reason : undefined,
+    };
+  } catch (e) {
+    return {};
+  }
+};
+
+/** A 403 is only an auth problem when it is about the token or its scopes, otherwise Spotify refuses this request */
+const forbiddenError = (res: RequestUrlResponse) => {
+  const { message, reason } = errorBody(res);
+  if (!reason && (!message || /scope|token/i.test(message))) {
+    return new SpotifyAuthError(`Spotify rejected the request (403${message ? `: ${message}` : ""})`, 403);
+  }
+  return new SpotifyForbiddenError(message || reason || "Forbidden", reason);
+};
+
+/** Provides a fresh access token after a 401, or undefined when there is none */
+type AccessTokenRefresher = () => Promise<string | undefined>;
+
+let refreshAccessToken: AccessTokenRefresher | undefined;
+
+/** Register how the client gets a new access token when Spotify rejects the current one */
+export const setAccessTokenRefresher = (refresher: AccessTokenRefresher) => {
+  refreshAccessToken = refresher;
+};
+
+/**
+ * Make a request to Spotify. Every endpoint goes through here.
+ * - Retries 429s (honoring Retry-After) and 5xxs with exponential backoff
+ * - On a 401, refreshes the access token once and retries with it (unless `retryAuth` is false)
+ * - Caps the number of requests in flight
+ * - Throws a `SpotifyError` subclass for anything that isn't a 2xx; 403s only count as auth errors for token/scope problems
+ */
+export const spotifyRequest = async (
+  params: RequestUrlParam,
+  retryAuth = true
+): Promise<RequestUrlResponse> => {
+  let request = params;
+  let refreshed = !retryAuth;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: RequestUrlResponse;
+    await acquire();
+    try {
+      res = await requestUrl({ ...request, throw: false });
+    } catch (e) {
+      throw new SpotifyNetworkError(e instanceof Error ? e.message : String(e));
+    } finally {
+      release();
+    }
+
+    if (res.status >= 200 && res.status <= 299) return res;
+
+    if (res.status === 401 && !refreshed) {
+      refreshed = true;
+      const token = await refreshAccessToken?.();
+      if (token) {
+        request = {
+          ...request,
+          headers: { ...request.headers, Authorization: `Bearer ${token}` },
+        };
+        continue;
+      }
+    }
+    if (res.status === 401) throw new SpotifyAuthError("Spotify rejected the request (401)", 401);
+    if (res.status === 403) throw forbiddenError(res);
+    if (res.status === 404) throw new SpotifyNotFoundError(`Not found: ${params.url}`);
+
+    const backoff = 2 ** attempt;
+    if (res.status === 429) {
+      const retryAfter = Number(header(res, "retry-after")) || backoff;
+      if (attempt >= maxRetries || retryAfter > maxRetryAfter) {
+        throw new SpotifyRateLimitError(retryAfter);
+      }
+      await sleep(retryAfter * 1000);
+      continue;
+    }
+    if (res.status >= 500 && attempt < maxRetries) {
+      await sleep(backoff * 1000);
+      continue;
+    }
+    throw new SpotifyError(`Spotify request failed (${res.status})`, res.status, errorBody(res).reason);
+  }
+};
+
+/** GET a Spotify Web API url with the given access token */
+export const spotifyGet = (token: string, url: string) => {
+  return spotifyRequest({ url, headers: { Authorization: `Bearer ${token}` } });
+};
+
+/** Send a PUT/POST/DELETE to a Spotify Web API url with the given access token, and an optional JSON body */
+export const spotifySend = (token: string, method: string, url: string, body?: unknown) => {
+  return spotifyRequest({
+    url,
+    method,
+    headers: { Authorization: `Bearer ${token}` },
+    contentType: body === undefined ? undefined : "application/json",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+};
@@ -0,0 +1,149 @@
+/**
+ * Parsing for the streaming history in Spotify's "Download your data" exports.
+ * Two shapes exist:
+ * - Account data, `StreamingHistory*.json`: `{ endTime, artistName, trackName, msPlayed }`, no track ids
+ * - Extended history, `Streaming_History_Audio_*.json`: `{ ts, ms_played, spotify_track_uri, master_metadata_* }`
+ */
+
+/** File names of the history files in an export */
+export const historyFilePattern = /^(StreamingHistory(_music_)?\d*|Streaming_History_Audio_.*)\.json$/i;
+
+/** Spotify only counts a stream as a play after 30 seconds */
+const minPlayMs = 30 * 1000;
+
+/** One stream of a track, normalized from either file shape */
+interface HistoryEntry {
+  playedAt: string; // ISO timestamp
+  msPlayed: number;
+  trackId?: string; // only in extended history
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+}
+
+/** Listening stats for one track, across all imported files */
+export interface TrackStats {
+  trackId?: string;
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  playCount: number; // streams of at least 30 seconds
+  msPlayed: number; // every stream counts towards this
+  firstPlayed: string; // ISO timestamp
+  lastPlayed: string; // ISO timestamp
+}
+
+/** ISO timestamp for a date string, undefined if it doesn't parse */
+const toIso = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/** A string field of a parsed JSON object, undefined if missing or not a string */
+const text = (item: object, key: string) => {
+  const value = (item as Record<string, unknown>)[key];
+  return typeof value === "string" ? value : undefined;
+};
+
+const parseEntry = (item: unknown): HistoryEntry | undefined => {
+  if (!item || typeof item !== "object") return undefined;
+  const msPlayed = (key: string) => Number((item as Record<string, unknown>)[key]) || 0;
+
+  // Extended history
+  if ("ts" in item) {
+    const uri = text(item, "spotify_track_uri") ?? "";
+    const trackName = text(item, "master_metadata_track_name");
+    const ts = text(item, "ts");
+    const playedAt = ts ? toIso(ts) : undefined;
+    if (!uri.startsWith("spotify:track:") || !trackName || !playedAt) return undefined; // episodes, audiobooks etc.
+    return {
+      playedAt,
+      msPlayed: msPlayed("ms_played"),
+      trackId: uri.slice("spotify:track:".length),
+      trackName,
+      artistName: text(item, "master_metadata_album_artist_name") ?? "",
+      albumName: text(item, "master_metadata_album_album_name"),
+    };
+  }
+
+  // Account data history, endTime is "YYYY-MM-DD HH:mm" in UTC
+  const endTime = text(item, "endTime");
+  const playedAt = endTime ? toIso(`${endTime.replace(" ", "T")}Z`) : undefined;
+  const trackName = text(item, "trackName");
+  if (playedAt && trackName) {
+    return {
+      playedAt,
+      msPlayed: msPlayed("msPlayed"),
+      trackName,
+      artistName: text(item, "artistName") ?? "",
+    };
+  }
+  return undefined;
+};
+
+/** Key that matches a track by name when there is no track id */
+export const nameKey = (artistName: string, trackName: string) =>
+  `${artistName.trim().toLowerCase()}|${trackName.trim().toLowerCase()}`;
+
+/**
+ * Add up the streams in the given history files (raw JSON text).
+ * Stats are keyed by track id where known, otherwise by `nameKey`. A stream appearing in more than one file of the
+ * same shape is counted once. The two shapes can't be matched up reliably (no track ids, minute vs second precision),
+ * so when any extended history is given, which covers everything account data does, account data entries are ignored.
+ */
+export const aggregateStreamingHistory = (files: string[]) => {
+  const stats = new Map<string, TrackStats>();
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  const entries: HistoryEntry[] = [];
+  for (const text of files) {
+    let items: unknown;
+    try {
+      items = JSON.parse(text);
+    } catch (e) {
+      skipped++;
+      continue;
+    }
+    if (!Array.isArray(items)) {
+      skipped++;
+      continue;
+    }
+    for (const item of items) {
+      const entry = parseEntry(item);
+      if (entry) entries.push(entry);
+    }
+  }
+  const hasExtended = entries.some((e) => e.trackId !== undefined);
+
+  for (const entry of entries) {
+    if (hasExtended && entry.trackId === undefined) continue;
+    const key = entry.trackId ?? nameKey(entry.artistName, entry.trackName);
+    const streamKey = `${key}|${entry.playedAt}`;
+    if (seen.has(streamKey)) continue;
+    seen.add(streamKey);
+
+    const current = stats.get(key);
+    if (!current) {
+      stats.set(key, {
+        trackId: entry.trackId,
+        trackName: entry.trackName,
+        artistName: entry.artistName,
+        albumName: entry.albumName,
+        playCount: entry.msPlayed >= minPlayMs ? 1 : 0,
+        msPlayed: entry.msPlayed,
+        firstPlayed: entry.playedAt,
+        lastPlayed: entry.playedAt,
+      });
+      continue;
+    }
+
+    if (entry.msPlayed >= minPlayMs) current.playCount++;
+    current.msPlayed += entry.msPlayed;
+    if (entry.playedAt < current.firstPlayed) current.firstPlayed = entry.playedAt;
+    if (entry.playedAt > current.lastPlayed) current.lastPlayed = entry.playedAt;
+    current.albumName = current.albumName ?? entry.albumName;
+  }
+
+  return { stats, skipped };
+};
@@ -0,0 +1,113 @@
+import { moment } from "obsidian";
+import { Song } from "spotifyAPI";
+import { formatDuration } from "songSchema";
+
+/** Placeholders that can be used in song file name and body templates, with a short description for settings */
+export const songPlaceholders: Record<string, string> = {
+  title: "Song title (also {{name}} and {{track}})",
+  artist: "First artist",
+  artists: "All artists, comma separated",
+  album: "Album name",
+  album_id: "Spotify album id",
+  track_number: "Track number on the album",
+  disc_number: "Disc number on the album",
+  release_date: "Album release date",
+  year: "Album release year",
+  duration: "Duration as m:ss",
+  duration_ms: "Duration in milliseconds",
+  id: "Spotify track id",
+  isrc: "ISRC",
+  link: "Spotify link",
+  explicit: "true or false",
+  popularity: "Popularity, 0-100",
+  genres: "Genres, comma separated",
+  date: "Today's date (YYYY-MM-DD)",
+};
+
+/** Build the value of every song placeholder */
+export const songTemplateValues = (song: Song): Record<string, string> => {
+  const artists = (song.artists ?? []).map((a) => a.name).filter(Boolean);
+  const releaseDate = song.album?.release_date ?? "";
+  return {
+    title: song.name ?? "",
+    name: song.name ?? "",
+    track: song.name ?? "",
+    artist: artists[0] ?? "",
+    artists: artists.join(", "),
+    album: song.album?.name ?? "",
+    album_id: song.album?.id ?? "",
+    track_number: song.track_number !== undefined ? String(song.track_number) : "",
+    disc_number: song.disc_number !== undefined ? String(song.disc_number) : "",
+    release_date: releaseDate,
+    year: releaseDate.slice(0, 4),
+    duration: song.duration_ms !== undefined ? formatDuration(song.duration_ms) : "",
+    duration_ms: song.duration_ms !== undefined ? String(song.duration_ms) : "",
+    id: song.id ?? "",
+    isrc: song.isrc ?? "",
+    link: song.link ?? "",
+    explicit: song.explicit !== undefined ? String(song.explicit) : "",
+    popularity: song.popularity !== undefined ? String(song.popularity) : "",
+    genres: (song.genres ?? []).join(", "),
+    date: moment().format("YYYY-MM-DD"),
+  };
+};
+
+/**
+ * Replace `{{placeholder}}`s in a template. Unknown placeholders are left untouched,
+ * so templates can still be used by other plugins (e.g. Templater) afterwards.
+ */
+export const renderTemplate = (template: string, values: Record<string, string>) => {
+  return template.replace(/{{\s*([\w]+)\s*}}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+};
+
+/** Ways to link a song from another note */
+export type SongLinkFormat =
+  | "markdown"
+  | "markdown-artists"
+  | "wikilink"
+  | "wikilink-alias"
+  | "embed"
+  | "template";
+
+/** Label for settings and commands, and whether the format links the song note (which is created if missing) */
+export const songLinkFormats: Record<SongLinkFormat, { label: string; linksNote: boolean }> = {
+  markdown: { label: "Markdown link", linksNote: false },
+  "markdown-artists": { label: "Markdown link with artists", linksNote: false },
+  wikilink: { label: "Wikilink to song note", linksNote: true },
+  "wikilink-alias": { label: "Wikilink to song note with alias", linksNote: true },
+  embed: { label: "Embedded song note", linksNote: true },
+  template: { label: "Custom template", linksNote: false },
+};
+
+export const DEFAULT_SONG_LINK_TEMPLATE = "[{{title}} — {{artists}}]({{link}})";
+
+/** Whether a link in `format` needs the song note. Templates only do when they use {{note}}. */
+export const songLinkNeedsNote = (format: SongLinkFormat, template: string) => {
+  return format === "template" ? /{{\s*note\s*}}/.test(template) : songLinkFormats[format].linksNote;
+};
+
+/**
+ * Render a link to `song`. `note` is the link text of its song note, for the formats that link it;
+ * without one they fall back to a markdown link with artists.
+ * Templates get every song placeholder plus {{note}}.
+ */
+export const renderSongLink = (
+  song: Song,
+  format: SongLinkFormat,
+  template: string,
+  note?: string
+) => {
+  const values = songTemplateValues(song);
+  const titled = values.artists ? `${values.title} — ${values.artists}` : values.title;
+  const linkText = (text: string) => text.replace(/([[\]])/g, "\\$1");
+  const alias = (text: string) => text.replace(/[|[\]]/g, "");
+
+  if (format === "template") return renderTemplate(template, { ...values, note: note ?? "" });
+  if (format === "markdown") return `[${linkText(values.title)}](${values.link})`;
+  if (format === "markdown-artists" || !note) return `[${linkText(titled)}](${values.link})`;
+  if (format === "wikilink") return `[[${note}]]`;
+  if (format === "wikilink-alias") return `[[${note}|${alias(titled)}]]`;
+  return `![[${note}]]`;
+};
@@ -1,59 +1,202 @@
+import { App } from "obsidian";
 import { TokenResponse, refreshToken } from "spotifyAPI";
 
 const localStoragePrefix = "obsidian-song-links";
 const tokenKey = `${localStoragePrefix}-token`;
+const pendingAuthKey = `${localStoragePrefix}-pending-auth`;
 const publicAvailabilityNoticeKey = `${localStoragePrefix}-notified-of-public-availability`;
+/** Shared by every vault: which vault took over the token older versions shared between vaults */
+const tokenMovedKey = `${localStoragePrefix}-token-moved-to-vault`;
+const reconnectNoticeKey = `${localStoragePrefix}-told-to-reconnect`;
+
+/** How long a sign in started in the browser can take before its callback is refused */
+const pendingAuthLifetime = 10 * 60;
+
+/** Refresh this many seconds before the access token actually expires, so requests don't race the expiry */
+const refreshMargin = 5 * 60;
 
 export interface StorageToken {
   access_token: string /** Access Token as fetched from from Spotify */;
   expiresAt: number /** When the access token expires in seconds */;
   refresh_token: string /** Refresh Token as fetched from from Spotify */;
+  scope?: string /** Space separated scopes granted, missing for tokens stored by older versions */;
 }
 
-/** Store the access and refresh tokens, along with an expiration date in local storage. Returns the token that was stored for convenience. */
-export const storeToken = (token: TokenResponse) => {
-  const { access_token, refresh_token, expires_in } = token;
+/** A sign in that was started in the browser and hasn't come back through the callback yet */
+export interface PendingAuth {
+  verifier: string /** PKCE code verifier, needed to exchange the code for a token */;
+  state: string /** Must match the `state` the callback comes back with */;
+  startedAt: number /** When the sign in started in seconds */;
+}
+
+let vaultId: string | undefined;
+let refreshing: Promise<StorageToken | undefined> | undefined;
+let onReconnectNeeded: (() => void) | undefined;
+
+/**
+ * Read a value from this vault's part of localStorage. Stored under the same key `App.loadLocalStorage` uses,
+ * which would need Obsidian 1.8.7. Null if missing, unreadable, or storage isn't initialized yet.
+ */
+const loadVaultValue = (key: string): unknown => {
+  if (vaultId === undefined) return null;
+  const raw = localStorage.getItem(`${vaultId}-${key}`);
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Store (or with null, remove) a value in this vault's part of localStorage */
+const saveVaultValue = (key: string, value: unknown) => {
+  if (vaultId === undefined) return;
+  if (value === null) localStorage.removeItem(`${vaultId}-${key}`);
+  else localStorage.setItem(`${vaultId}-${key}`, JSON.stringify(value));
+};
+
+/**
+ * Keep tokens in this vault's own part of localStorage. Call once on load, before anything asks for a token.
+ * A token stored by an older version (shared by every vault) can't be shared safely, as refreshing it in one vault
+ * can invalidate it for the others, so it moves into the first vault that loads.
+ * Returns true, once per vault, when another vault took that token and this one has to connect Spotify again.
+ */
+export const initTokenStorage = (app: App) => {
+  // Obsidian's own per-vault id, not in the public API; the vault name is a reasonable stand-in
+  vaultId = (app as App & { appId?: string }).appId ?? app.vault.getName();
+
+  const legacy = localStorage.getItem(tokenKey);
+  if (legacy !== null) {
+    if (loadVaultValue(tokenKey) === null) {
+      try {
+        saveVaultValue(tokenKey, JSON.parse(legacy));
+      } catch (e) {
+        console.error("Could not migrate the stored Spotify token:", e);
+      }
+    }
+    localStorage.setItem(tokenMovedKey, vaultId);
+    localStorage.removeItem(tokenKey);
+    return false;
+  }
+
+  const movedTo = localStorage.getItem(tokenMovedKey);
+  if (!movedTo || movedTo === vaultId || readToken() !== undefined || loadVaultValue(reconnectNoticeKey)) {
+    return false;
+  }
+  saveVaultValue(reconnectNoticeKey, true);
+  return true;
+};
+
+/** Register what happens when the refresh token stops working and the user has to connect Spotify again */
+export const setReconnectHandler = (handler: () => void) => {
+  onReconnectNeeded = handler;
+};
+
+/**
+ * Store the access and refresh tokens, along with an expiration date, in this vault's local storage. Returns the token that was stored for convenience.
+ * Spotify may leave the refresh token out of a refresh response, in which case `previousRefreshToken` is kept.
+ */
+export const storeToken = (token: TokenResponse, previousRefreshToken?: string) => {
+  const { access_token, refresh_token, expires_in, scope } = token;
   const expiresAt = Math.floor(Date.now() / 1000) + expires_in; // Calculate the epoch time of expiration in seconds
   const authItems: StorageToken = {
     access_token,
     expiresAt,
-    refresh_token,
+    refresh_token: refresh_token ?? previousRefreshToken ?? "",
+    ...(scope ? { scope } : {}),
   };
-  localStorage.setItem(tokenKey, JSON.stringify(authItems));
+  saveVaultValue(tokenKey, authItems);
   return authItems;
 };
 
-/** Remove the token in local storage */
+/** Remove the token from local storage */
 export const clearToken = () => {
-  localStorage.removeItem(tokenKey);
+  saveVaultValue(tokenKey, null);
 };
 
-/** Get the token in local storage. If an expired token is retrieved, it will be refreshed and stored before it is returned. May throw SyntaxError or whatever refreshToken throws. Undefined return means no token exists. */
-export const getToken = async (): Promise<StorageToken | undefined> => {
-  const tokenAsString = localStorage.getItem(tokenKey);
-  if (tokenAsString === null) {
-    return undefined;
-  }
+/**
+ * Remember a sign in until Spotify redirects back. Kept in storage rather than memory,
+ * since mobile may unload Obsidian while the browser is open.
+ */
+export const storePendingAuth = (verifier: string, state: string) => {
+  const pending: PendingAuth = { verifier, state, startedAt: Math.floor(Date.now() / 1000) };
+  saveVaultValue(pendingAuthKey, pending);
+};
+
+/** Take the pending sign in that `state` belongs to. Undefined if there is none, it doesn't match, or it took too long. */
+export const takePendingAuth = (state: string | undefined): PendingAuth | undefined => {
+  const pending = loadVaultValue(pendingAuthKey) as PendingAuth | null;
+  if (!pending || !state || pending.state !== state) return undefined;
 
-  let token = JSON.parse(tokenAsString);
+  saveVaultValue(pendingAuthKey, null);
+  const age = Math.floor(Date.now() / 1000) - pending.startedAt;
+  return age <= pendingAuthLifetime ? pending : undefined;
+};
+
+/** The stored token, undefined if there is none or it is incomplete */
+const readToken = (): StorageToken | undefined => {
+  const token = loadVaultValue(tokenKey);
+  if (!token || typeof token !== "object") return undefined;
 
   // If any of the values of the retrieved token is undefined or null (via juggling check), bail
   if (Object.values(token).some((value) => value == undefined)) {
     return undefined;
   }
+  return token as StorageToken;
+};
 
-  // If token is expired, refresh it and store the new refreshed version before returning it.
-  if (isExpired(token)) {
-    const refreshedToken = await refreshToken(token.refresh_token);
-    token = refreshedToken ? storeToken(refreshedToken) : token;
+/**
+ * Refresh and store `token`. While a refresh is in flight, every caller shares it instead of starting another one,
+ * since Spotify rotates the refresh token and a second refresh with the old one would fail.
+ * If Spotify rejects the refresh token, the token is cleared and the reconnect handler runs. Anything else (network
+ * errors, outages, rate limits) is thrown and leaves the token alone.
+ */
+const refresh = (token: StorageToken) => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshedToken = await refreshToken(token.refresh_token);
+      if (!refreshedToken) {
+        clearToken();
+        onReconnectNeeded?.();
+        return undefined;
+      }
+      return storeToken(refreshedToken, token.refresh_token);
+    })().finally(() => (refreshing = undefined));
   }
+  return refreshing;
+};
+
+/**
+ * Get the stored token, refreshing it first if it expires within `refreshMargin`.
+ * If the refresh can't reach Spotify, the current token is returned as long as it hasn't actually expired; otherwise the error is thrown.
+ * Undefined return means no token exists, or the refresh token was rejected.
+ */
+export const getToken = async (): Promise<StorageToken | undefined> => {
+  const token = readToken();
+  if (token === undefined) {
+    return undefined;
+  }
+  if (!isExpired(token, refreshMargin)) {
+    return token;
+  }
+
+  try {
+    return await refresh(token);
+  } catch (e) {
+    if (!isExpired(token)) return token;
+    throw e;
+  }
+};
 
-  return token;
+/** Refresh and store the token even though it hasn't expired, e.g. after Spotify rejected it. Undefined if there is no token or the refresh failed. */
+export const forceRefreshToken = async (): Promise<StorageToken | undefined> => {
+  const token = readToken();
+  return token === undefined ? undefined : refresh(token);
 };
 
-/** Check if we are past a given expiration time */
-export const isExpired = (token: StorageToken) => {
-  return Math.floor(Date.now() / 1000) > token.expiresAt;
+/** Check if we are past a given expiration time, or will be within `margin` seconds */
+export const isExpired = (token: StorageToken, margin = 0) => {
+  return Math.floor(Date.now() / 1000) + margin > token.expiresAt;
 };
 
 /** Check if the user has been notified of public availability already */